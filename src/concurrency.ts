@@ -0,0 +1,53 @@
+/**
+ * Número de operaciones de E/S simultáneas por defecto al escanear e importar rutas
+ */
+export const DEFAULT_CONCURRENCY = 16;
+
+/**
+ * Ejecuta una tarea asíncrona respetando el límite de concurrencia
+ */
+export type ConcurrencyLimit = <T>(task: () => Promise<T>) => Promise<T>;
+
+/**
+ * Crea un limitador que ejecuta como máximo `limit` tareas a la vez; el resto espera en cola
+ */
+export function createConcurrencyLimit(limit: number = DEFAULT_CONCURRENCY): ConcurrencyLimit {
+  // Un límite no finito (ej: NaN desde una variable de entorno) usa el valor por defecto
+  const maxActive = Number.isFinite(limit) ? Math.max(1, Math.floor(limit)) : DEFAULT_CONCURRENCY;
+  const queue: (() => void)[] = [];
+  let active = 0;
+
+  const runNext = () => {
+    if (active < maxActive && queue.length > 0) {
+      active++;
+      queue.shift()!();
+    }
+  };
+
+  return <T>(task: () => Promise<T>) => new Promise<T>((resolve, reject) => {
+    queue.push(() => {
+      // Una tarea que lanza de forma síncrona también rechaza y libera su lugar
+      Promise.resolve()
+        .then(task)
+        .then(resolve, reject)
+        .finally(() => {
+          active--;
+          runNext();
+        });
+    });
+    runNext();
+  });
+}
+
+/**
+ * Aplica una función asíncrona a cada elemento con concurrencia limitada.
+ * Los resultados mantienen el orden de los elementos, sin importar cuál termine antes.
+ */
+export async function mapWithConcurrency<T, R>(
+  items: T[],
+  limit: number,
+  mapper: (item: T, index: number) => Promise<R>
+): Promise<R[]> {
+  const run = createConcurrencyLimit(limit);
+  return Promise.all(items.map((item, index) => run(() => mapper(item, index))));
+}
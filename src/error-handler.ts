@@ -63,6 +63,22 @@ export class ErrorHandler {
     return c.json(errorResponse, 400);
   }
 
+  /**
+   * Maneja URLs con codificación porcentual inválida (ej: /users/%E0%A4%A)
+   */
+  handleMalformedUrl(c: Context, requestedPath: string) {
+    const errorResponse = {
+      error: 'Bad Request',
+      message: `Malformed URL encoding in '${requestedPath}'`,
+      statusCode: 400,
+      path: requestedPath,
+      timestamp: new Date().toISOString()
+    };
+
+    // Respuesta por defecto
+    return c.json(errorResponse, 400);
+  }
+
   /**
    * Maneja errores internos del servidor
    */
@@ -0,0 +1,182 @@
+import { promises as fs, existsSync } from 'fs';
+import { dirname } from 'path';
+import { RouteFileSystem, RouteFileSystemEntry, RouteFileStats } from '../types';
+
+/**
+ * Sistema de archivos de Node.js (implementación por defecto)
+ */
+export class NodeFileSystem implements RouteFileSystem {
+  async readdir(dirPath: string): Promise<RouteFileSystemEntry[]> {
+    const entries = await fs.readdir(dirPath, { withFileTypes: true });
+    return entries.map(entry => ({
+      name: entry.name,
+      isDirectory: entry.isDirectory(),
+      isFile: entry.isFile(),
+      isSymbolicLink: entry.isSymbolicLink()
+    }));
+  }
+
+  async stat(filePath: string): Promise<RouteFileStats> {
+    const stats = await fs.stat(filePath);
+    return {
+      isDirectory: stats.isDirectory(),
+      isFile: stats.isFile(),
+      mtime: stats.mtime,
+      size: stats.size
+    };
+  }
+
+  exists(filePath: string): boolean {
+    return existsSync(filePath);
+  }
+
+  async import(filePath: string): Promise<Record<string, any>> {
+    return import(filePath);
+  }
+
+  async realpath(filePath: string): Promise<string> {
+    return fs.realpath(filePath);
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    return fs.readFile(filePath, 'utf8');
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    await fs.mkdir(dirname(filePath), { recursive: true });
+    await fs.writeFile(filePath, content);
+  }
+}
+
+/**
+ * Archivo de un sistema de archivos en memoria
+ */
+interface MemoryFile {
+  /** Módulo de ruta (objeto con los handlers exportados) */
+  module?: Record<string, any>;
+  /** Contenido de texto (ej: .routeignore) */
+  content?: string;
+  /** Fecha de última modificación */
+  mtime: Date;
+}
+
+/**
+ * Sistema de archivos en memoria donde los módulos de ruta son objetos planos.
+ * Permite crear routers en tests sin tocar el disco:
+ *
+ *   new MemoryFileSystem({
+ *     '/routes/users/[id].ts': { get: (c) => c.json({ id: c.routeParams.id }) },
+ *     '/routes/.routeignore': 'drafts/**'
+ *   })
+ */
+export class MemoryFileSystem implements RouteFileSystem {
+  private files = new Map<string, MemoryFile>();
+
+  constructor(files: { [filePath: string]: Record<string, any> | string } = {}) {
+    for (const [filePath, file] of Object.entries(files)) {
+      this.addFile(filePath, file);
+    }
+  }
+
+  /**
+   * Agrega o reemplaza un archivo: un objeto es un módulo de ruta y un texto es su contenido
+   */
+  addFile(filePath: string, file: Record<string, any> | string, mtime: Date = new Date()): void {
+    this.files.set(
+      normalizeMemoryPath(filePath),
+      typeof file === 'string' ? { content: file, mtime } : { module: file, mtime }
+    );
+  }
+
+  /**
+   * Elimina un archivo
+   */
+  removeFile(filePath: string): boolean {
+    return this.files.delete(normalizeMemoryPath(filePath));
+  }
+
+  async readdir(dirPath: string): Promise<RouteFileSystemEntry[]> {
+    const directory = normalizeMemoryPath(dirPath);
+    if (!this.isDirectory(directory)) {
+      throw new Error(`ENOENT: no such directory '${dirPath}'`);
+    }
+
+    // Las carpetas son implícitas: cualquier prefijo de la ruta de un archivo
+    const entries = new Map<string, RouteFileSystemEntry>();
+    for (const filePath of this.files.keys()) {
+      if (!filePath.startsWith(directoryPrefix(directory))) {
+        continue;
+      }
+      const [name, ...rest] = filePath.slice(directoryPrefix(directory).length).split('/');
+      entries.set(name, {
+        name,
+        isDirectory: rest.length > 0,
+        isFile: rest.length === 0,
+        isSymbolicLink: false
+      });
+    }
+
+    return [...entries.values()];
+  }
+
+  async stat(filePath: string): Promise<RouteFileStats> {
+    const normalizedPath = normalizeMemoryPath(filePath);
+    const file = this.files.get(normalizedPath);
+    if (file) {
+      const size = file.content !== undefined ? file.content.length : 0;
+      return { isDirectory: false, isFile: true, mtime: file.mtime, size };
+    }
+    if (this.isDirectory(normalizedPath)) {
+      return { isDirectory: true, isFile: false, mtime: new Date(0), size: 0 };
+    }
+    throw new Error(`ENOENT: no such file or directory '${filePath}'`);
+  }
+
+  exists(filePath: string): boolean {
+    const normalizedPath = normalizeMemoryPath(filePath);
+    return this.files.has(normalizedPath) || this.isDirectory(normalizedPath);
+  }
+
+  async import(filePath: string): Promise<Record<string, any>> {
+    const file = this.files.get(normalizeMemoryPath(filePath));
+    if (!file?.module) {
+      throw new Error(`Cannot find module '${filePath}'`);
+    }
+    return file.module;
+  }
+
+  async readFile(filePath: string): Promise<string> {
+    const file = this.files.get(normalizeMemoryPath(filePath));
+    if (file?.content === undefined) {
+      throw new Error(`ENOENT: no such file '${filePath}'`);
+    }
+    return file.content;
+  }
+
+  async writeFile(filePath: string, content: string): Promise<void> {
+    this.addFile(filePath, content);
+  }
+
+  /**
+   * Verifica si una ruta es una carpeta (contiene algún archivo)
+   */
+  private isDirectory(directory: string): boolean {
+    const prefix = directoryPrefix(directory);
+    return [...this.files.keys()].some(filePath => filePath.startsWith(prefix));
+  }
+}
+
+/**
+ * Normaliza una ruta del sistema de archivos en memoria (sin barras duplicadas ni finales).
+ * Las barras invertidas se conservan: forman parte de restricciones como [code(\d{3})].
+ */
+function normalizeMemoryPath(filePath: string): string {
+  return filePath.replace(/\/+/g, '/').replace(/(.)\/$/, '$1');
+}
+
+/**
+ * Prefijo que comparten los archivos contenidos en una carpeta
+ */
+function directoryPrefix(directory: string): string {
+  return directory.endsWith('/') ? directory : directory + '/';
+}
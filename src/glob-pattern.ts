@@ -0,0 +1,127 @@
+/**
+ * Convierte un patrón glob en una expresión regular anclada.
+ * Soporta *, ** (cualquier número de directorios), ?, clases ([abc], [a-z], [!abc])
+ * y \ para escapar caracteres especiales (ej: \[id\].ts).
+ */
+export function globToRegExp(glob: string): RegExp {
+  let source = '';
+  let index = 0;
+
+  while (index < glob.length) {
+    const char = glob[index];
+
+    if (char === '*' && glob[index + 1] === '*') {
+      // **/ al inicio de un segmento coincide con cero o más directorios
+      const atSegmentStart = index === 0 || glob[index - 1] === '/';
+      if (atSegmentStart && glob[index + 2] === '/') {
+        source += '(?:.*/)?';
+        index += 3;
+      } else {
+        source += '.*';
+        index += 2;
+      }
+      continue;
+    }
+
+    if (char === '*') {
+      source += '[^/]*';
+    } else if (char === '?') {
+      source += '[^/]';
+    } else if (char === '[' && findClassEnd(glob, index) !== -1) {
+      const end = findClassEnd(glob, index);
+      let body = glob.slice(index + 1, end);
+      const negated = body.startsWith('!') || body.startsWith('^');
+      if (negated) {
+        body = body.slice(1);
+      }
+      // Las clases nunca coinciden con el separador de directorios
+      source += `[${negated ? '^/' : ''}${body.replace(/[\\\[\]^]/g, '\\$&')}]`;
+      index = end;
+    } else if (char === '\\' && index + 1 < glob.length) {
+      source += escapeRegExp(glob[index + 1]);
+      index++;
+    } else {
+      source += escapeRegExp(char);
+    }
+    index++;
+  }
+
+  return new RegExp(`^${source}$`);
+}
+
+/**
+ * Verifica si una ruta relativa (con separadores /) coincide con un patrón glob.
+ * Un patrón sin barra se aplica al nombre de cualquier archivo o carpeta (ej: *.test.ts);
+ * con barra se ancla al directorio raíz (ej: admin/**). Un patrón terminado en /
+ * solo coincide con carpetas. Coincidir con una carpeta incluye todo su contenido.
+ */
+export function matchesGlob(relativePath: string, pattern: string): boolean {
+  const directoryOnly = pattern.endsWith('/');
+  const glob = pattern.replace(/^\//, '').replace(/\/$/, '');
+  const anchored = pattern.replace(/\/$/, '').includes('/');
+  const regex = globToRegExp(glob);
+  const segments = relativePath.split('/');
+
+  for (let end = directoryOnly ? segments.length - 1 : segments.length; end > 0; end--) {
+    const candidate = anchored ? segments.slice(0, end).join('/') : segments[end - 1];
+    if (regex.test(candidate)) {
+      return true;
+    }
+  }
+
+  return false;
+}
+
+/**
+ * Verifica si una ruta queda excluida por una lista de patrones glob. Los patrones se evalúan
+ * en orden y los que comienzan con ! vuelven a incluir rutas excluidas por patrones anteriores.
+ */
+export function isExcludedByGlobs(relativePath: string, patterns: string[]): boolean {
+  let excluded = false;
+
+  for (const pattern of patterns) {
+    if (pattern.startsWith('!')) {
+      if (excluded && matchesGlob(relativePath, pattern.slice(1))) {
+        excluded = false;
+      }
+    } else if (!excluded && matchesGlob(relativePath, pattern)) {
+      excluded = true;
+    }
+  }
+
+  return excluded;
+}
+
+/**
+ * Parsea el contenido de un archivo de patrones (.routeignore): un patrón por línea,
+ * ignorando líneas vacías y comentarios (#)
+ */
+export function parseIgnoreFile(content: string): string[] {
+  return content
+    .split(/\r?\n/)
+    .map(line => line.trim())
+    .filter(line => line !== '' && !line.startsWith('#'));
+}
+
+/**
+ * Encuentra el corchete que cierra una clase de caracteres, o -1 si no está cerrada
+ */
+function findClassEnd(glob: string, start: number): number {
+  let index = start + 1;
+  if (glob[index] === '!' || glob[index] === '^') {
+    index++;
+  }
+  // Un ] inmediatamente después de la apertura forma parte de la clase ([]a])
+  if (glob[index] === ']') {
+    index++;
+  }
+  const end = glob.indexOf(']', index);
+  return end !== -1 && !glob.slice(start + 1, end).includes('/') ? end : -1;
+}
+
+/**
+ * Escapa un texto para usarlo literalmente en una expresión regular
+ */
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\\/]/g, '\\$&');
+}
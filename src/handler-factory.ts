@@ -0,0 +1,37 @@
+import {
+  HandlerConfig,
+  HandlerFactory,
+  DeclaredRouteParams,
+  RouteDefinitionConfig
+} from '../types';
+
+/**
+ * Define el handler de una ruta declarando sus parámetros con la sintaxis del nombre de
+ * archivo; c.params y c.routeParams quedan tipados y el router verifica al registrar la
+ * ruta que los nombres coincidan con los del archivo:
+ *
+ *   // src/routes/users/[userId:int]/files/[...path].ts
+ *   export default defineRoute({
+ *     params: ['userId:int', '...path'],
+ *     handler: (c) => c.json({ user: c.params.userId, file: c.params.path.join('/') })
+ *   });
+ */
+export function defineRoute<const D extends readonly string[]>(
+  config: RouteDefinitionConfig<D>
+): HandlerConfig<DeclaredRouteParams<D>> {
+  return { ...config };
+}
+
+/**
+ * Implementación de HandlerFactory: cada builder declara los parámetros de su tipo de ruta
+ */
+export const handlerFactory: HandlerFactory = {
+  simple: handler => ({ handler, params: [] }),
+
+  singleParam: (paramName, handler) => ({ handler, params: [paramName] }),
+
+  variableSegment: (segmentName, handler) => ({ handler, params: [`...${segmentName}`] }),
+
+  // Sin nombres declarados en tiempo de ejecución no se verifican los parámetros
+  nested: handler => ({ handler })
+};
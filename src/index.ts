@@ -6,6 +6,7 @@
  * - Simple routes: /api/users
  * - Single parameter routes: /api/users/[id]
  * - Variable segment routes: /api/products/[...segments]
+ * - Optional variable segment routes: /api/docs/[[...slug]]
  * - Nested routes with parameters: /api/users/[id]/posts/[postId]
  * 
  * @author Hono My Router Team
@@ -15,8 +16,12 @@
 // Main exports
 export { Router, createRouter, createAndInitializeRouter } from './router';
 
+// Router for static route tables, without Node.js modules (also available as hono-my-router/static)
+export { StaticRouter } from './static-router';
+
 // Route scanning and analysis
 export { RouteScanner } from './scanner';
+export { DEFAULT_ROUTE_EXTENSIONS } from './route-files';
 
 // Parameter extraction and validation
 export { ParameterExtractor } from './parameter-extractor';
@@ -24,12 +29,29 @@ export { ParameterExtractor } from './parameter-extractor';
 // Error handling
 export { ErrorHandler } from './error-handler';
 
+// Parameter patterns and declared parameter types ([id:int])
+export { VALIDATION_PATTERNS, PARAMETER_TYPES } from './validation-patterns';
+
+// File system adapters for scanning and importing routes
+export { NodeFileSystem, MemoryFileSystem } from './file-system';
+
+// Static route table generation for runtimes without a file system
+export { generateStaticRoutesModule } from './static-routes';
+export type { StaticRoutesModuleOptions } from './static-routes';
+
+// Typed route handlers (defineRoute and HandlerFactory)
+export { defineRoute, handlerFactory } from './handler-factory';
+
+// URL normalization applied before matching (normalize option)
+export { normalizeUrlPath } from './url-normalization';
+
 // Import for default export
 import { Router } from './router';
 import { createRouter, createAndInitializeRouter } from './router';
 import { RouteScanner } from './scanner';
 import { ParameterExtractor } from './parameter-extractor';
 import { ErrorHandler } from './error-handler';
+import { VALIDATION_PATTERNS, PARAMETER_TYPES } from './validation-patterns';
 
 // Type definitions
 export * from '../types';
@@ -125,6 +147,7 @@ export const ROUTE_TYPES = {
   SIMPLE: 'simple' as const,
   SINGLE_PARAM: 'singleParam' as const,
   VARIABLE_SEGMENTS: 'variableSegments' as const,
+  OPTIONAL_VARIABLE_SEGMENTS: 'optionalVariableSegments' as const,
   NESTED: 'nested' as const
 };
 
@@ -141,18 +164,6 @@ export const HTTP_METHODS = {
   OPTIONS: 'OPTIONS' as const
 };
 
-/**
- * Parameter validation helpers
- */
-export const VALIDATION_PATTERNS = {
-  UUID: /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i,
-  EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
-  SLUG: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
-  NUMERIC: /^\d+$/,
-  ALPHA: /^[a-zA-Z]+$/,
-  ALPHANUMERIC: /^[a-zA-Z0-9]+$/
-};
-
 /**
  * Common parameter validators
  */
@@ -208,12 +219,14 @@ export const isRouteHandler = (obj: any): obj is import('../types').RouteHandler
     typeof obj.delete === 'function' ||
     typeof obj.patch === 'function' ||
     typeof obj.head === 'function' ||
-    typeof obj.options === 'function'
+    typeof obj.options === 'function' ||
+    typeof obj.del === 'function' ||
+    typeof obj.all === 'function'
   );
 };
 
 export const isValidRouteType = (type: string): type is import('../types').RouteType => {
-  return ['simple', 'singleParam', 'variableSegments', 'nested'].includes(type);
+  return ['simple', 'singleParam', 'variableSegments', 'optionalVariableSegments', 'nested'].includes(type);
 };
 
 export const isValidHTTPMethod = (method: string): method is import('../types').HTTPMethod => {
@@ -239,6 +252,7 @@ const HonoRouter = {
   ROUTE_TYPES,
   HTTP_METHODS,
   VALIDATION_PATTERNS,
+  PARAMETER_TYPES,
   VALIDATORS,
   ERROR_TYPES,
   MODULE_INFO,
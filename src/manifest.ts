@@ -0,0 +1,152 @@
+import { createHash } from 'crypto';
+import { dirname, isAbsolute, relative, resolve, sep } from 'path';
+import { RouteFileMetadata, RouteInfo, RouteManifest, RouteManifestEntry, RouteFileSystem } from '../types';
+import { mapWithConcurrency, DEFAULT_CONCURRENCY } from './concurrency';
+
+/**
+ * Versión actual del formato del manifiesto de rutas
+ */
+export const ROUTE_MANIFEST_VERSION = 1;
+
+/**
+ * Archivo de ruta con su información, tal como lo usa el router
+ */
+export interface ManifestRouteFile {
+  /** Metadatos del archivo (rutas absolutas) */
+  metadata: RouteFileMetadata;
+  /** Información de la ruta que define el archivo */
+  routeInfo: RouteInfo;
+  /** Métodos HTTP que registra el archivo */
+  methods: string[];
+  /** Hash del contenido guardado en el manifiesto */
+  hash?: string;
+}
+
+/**
+ * Crea el manifiesto de los archivos de ruta; las rutas se guardan relativas al
+ * directorio del manifiesto para que pueda moverse junto con el build
+ */
+export async function createRouteManifest(
+  manifestPath: string,
+  routeFiles: ManifestRouteFile[],
+  fileSystem: RouteFileSystem,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<RouteManifest> {
+  const baseDir = dirname(resolve(manifestPath));
+  const toManifestPath = (filePath: string) => relative(baseDir, filePath).split(sep).join('/');
+
+  const entries = await mapWithConcurrency(
+    routeFiles,
+    concurrency,
+    async ({ metadata, routeInfo, methods }): Promise<RouteManifestEntry> => ({
+      file: {
+        ...metadata,
+        filePath: toManifestPath(metadata.filePath),
+        realPath: toManifestPath(metadata.realPath),
+        lastModified: metadata.lastModified.toISOString(),
+        hash: await hashFile(metadata.filePath, fileSystem)
+      },
+      route: {
+        ...routeInfo,
+        filePath: toManifestPath(routeInfo.filePath),
+        ...(routeInfo.root !== undefined && { root: toManifestPath(routeInfo.root) })
+      },
+      methods
+    })
+  );
+
+  return {
+    version: ROUTE_MANIFEST_VERSION,
+    generatedAt: new Date().toISOString(),
+    entries
+  };
+}
+
+/**
+ * Lee un manifiesto de rutas y resuelve sus rutas relativas al directorio del manifiesto
+ */
+export async function readRouteManifest(
+  manifestPath: string,
+  fileSystem: RouteFileSystem
+): Promise<ManifestRouteFile[]> {
+  if (!fileSystem.readFile) {
+    throw new Error(`Cannot read route manifest ${manifestPath}: the file system does not support readFile`);
+  }
+  const content = await fileSystem.readFile(manifestPath);
+  const manifest = JSON.parse(content) as RouteManifest;
+
+  if (manifest.version !== ROUTE_MANIFEST_VERSION || !Array.isArray(manifest.entries)) {
+    throw new Error(
+      `Unsupported route manifest format in ${manifestPath} ` +
+      `(expected version ${ROUTE_MANIFEST_VERSION}, got ${manifest.version})`
+    );
+  }
+
+  const baseDir = dirname(resolve(manifestPath));
+  const fromManifestPath = (filePath: string) => isAbsolute(filePath) ? filePath : resolve(baseDir, filePath);
+
+  return manifest.entries.map(({ file: { hash, ...file }, route, methods }) => ({
+    metadata: {
+      ...file,
+      filePath: fromManifestPath(file.filePath),
+      realPath: fromManifestPath(file.realPath),
+      lastModified: new Date(file.lastModified)
+    },
+    routeInfo: {
+      ...route,
+      filePath: fromManifestPath(route.filePath),
+      ...(route.root !== undefined && { root: fromManifestPath(route.root) })
+    },
+    methods,
+    hash
+  }));
+}
+
+/**
+ * Obtiene los archivos del manifiesto que cambiaron o ya no existen, comparando
+ * la fecha de modificación o el hash del contenido, y los archivos de ruta actuales
+ * (currentFiles, obtenidos al escanear) que el manifiesto no incluye
+ */
+export async function findStaleManifestFiles(
+  routeFiles: ManifestRouteFile[],
+  currentFiles: string[],
+  check: 'mtime' | 'hash',
+  fileSystem: RouteFileSystem,
+  concurrency: number = DEFAULT_CONCURRENCY
+): Promise<string[]> {
+  const stale = await mapWithConcurrency(routeFiles, concurrency, async ({ metadata, hash }) => {
+    try {
+      if (check === 'hash') {
+        return hash === undefined || (await hashFile(metadata.filePath, fileSystem)) !== hash;
+      }
+      const stats = await fileSystem.stat(metadata.filePath);
+      return stats.mtime.getTime() !== metadata.lastModified.getTime();
+    } catch {
+      return true;
+    }
+  });
+
+  const listedFiles = new Set(routeFiles.map(({ metadata }) => resolve(metadata.filePath)));
+  const addedFiles = currentFiles.filter(filePath => !listedFiles.has(resolve(filePath)));
+
+  return routeFiles
+    .filter((_, index) => stale[index])
+    .map(({ metadata }) => metadata.filePath)
+    .concat(addedFiles);
+}
+
+/**
+ * Calcula el hash SHA-256 del contenido de un archivo, o undefined si el sistema de
+ * archivos no puede leerlo (ej: los módulos de MemoryFileSystem no tienen contenido)
+ */
+async function hashFile(filePath: string, fileSystem: RouteFileSystem): Promise<string | undefined> {
+  if (!fileSystem.readFile) {
+    return undefined;
+  }
+  try {
+    const content = await fileSystem.readFile(filePath);
+    return createHash('sha256').update(content).digest('hex');
+  } catch {
+    return undefined;
+  }
+}
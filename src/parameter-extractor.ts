@@ -1,5 +1,17 @@
-import { RouteParams, ParamValidation, ValidationError } from '../types';
+import { RouteParams, TypedRouteParams, ParamValidation, ValidationError } from '../types';
 import { match, pathToRegexp, compile, Key } from 'path-to-regexp';
+import { findParameterTokens, ParameterToken } from './route-pattern';
+import { PARAMETER_TYPES, getParameterTypePattern } from './validation-patterns';
+
+/**
+ * Asterisco final de un patrón (ej: /products/*), que captura uno o más segmentos
+ */
+const WILDCARD_SUFFIX = /\/\*$/;
+
+/**
+ * Obtiene los parámetros de una URL según un patrón de ruta, o null si la URL no coincide
+ */
+export type ParameterMatcher = (urlPath: string) => TypedRouteParams | null;
 
 /**
  * Extractor y validador de parámetros de rutas
@@ -8,32 +20,63 @@ export class ParameterExtractor {
   /**
    * Extrae parámetros de una URL basándose en un patrón de ruta
    */
-  extractParameters(urlPath: string, routePattern: string): RouteParams {
+  extractParameters(urlPath: string, routePattern: string): TypedRouteParams {
+    return this.createParameterMatcher(routePattern)(urlPath) || {};
+  }
+
+  /**
+   * Crea la función que extrae los parámetros de una URL según un patrón (null si la URL no
+   * coincide), compilando sus expresiones una sola vez
+   */
+  createParameterMatcher(routePattern: string): ParameterMatcher {
     const pathToRegexpPattern = this.convertToPathToRegexpPattern(routePattern);
     const matchFn = match(pathToRegexpPattern, { decode: decodeURIComponent });
-    const result = matchFn(urlPath);
+    const tokens = findParameterTokens(routePattern);
+    // El asterisco final (/*) captura sus segmentos en el parámetro segments
+    const isWildcard = WILDCARD_SUFFIX.test(this.normalizePath(routePattern));
     
-    if (!result) {
-      return {};
+    // Tipos declarados de los parámetros tipados ([id:int])
+    const parameterTypes: { [name: string]: string } = {};
+    for (const token of tokens) {
+      if (token.type) {
+        parameterTypes[token.name] = token.type;
+      }
     }
+    const hasParameterTypes = Object.keys(parameterTypes).length > 0;
     
-    const params: RouteParams = {};
-    
-    // Procesar parámetros extraídos
-    for (const [key, value] of Object.entries(result.params)) {
-      if (this.isVariableSegmentName(key, routePattern) || key === 'segments') {
-        // Para segmentos variables, dividir por / si es string
-        if (typeof value === 'string') {
-          params[key] = value.split('/').filter(Boolean);
+    return urlPath => {
+      const result = matchFn(urlPath);
+      
+      if (!result) {
+        return null;
+      }
+      
+      const params: RouteParams = {};
+      
+      // Procesar parámetros extraídos
+      for (const [key, value] of Object.entries(result.params)) {
+        if (tokens.some(token => token.variable && token.name === key) || (isWildcard && key === 'segments')) {
+          // Para segmentos variables, dividir por / si es string
+          if (typeof value === 'string') {
+            params[key] = value.split('/').filter(Boolean);
+          } else {
+            params[key] = value;
+          }
         } else {
           params[key] = value;
         }
-      } else {
-        params[key] = value;
       }
-    }
-    
-    return params;
+      
+      // Los segmentos variables opcionales sin valor se representan como array vacío
+      for (const token of tokens) {
+        if (token.variable && token.optional && params[token.name] === undefined) {
+          params[token.name] = [];
+        }
+      }
+      
+      // Convertir los parámetros tipados a su tipo declarado
+      return hasParameterTypes ? this.convertParameterTypes(params, parameterTypes) : params;
+    };
   }
 
   /**
@@ -102,11 +145,24 @@ export class ParameterExtractor {
    * Verifica si una ruta coincide con un patrón
    */
   matchesPattern(urlPath: string, routePattern: string): boolean {
+    return this.createParameterMatcher(routePattern)(urlPath) !== null;
+  }
+
+  /**
+   * Crea la función que reescribe una URL con las mayúsculas y minúsculas de los segmentos
+   * estáticos del patrón, conservando los valores de los parámetros (ej: /API/Users/Ana →
+   * /api/users/Ana), o devuelve null si la URL no coincide con el patrón aun ignorando
+   * mayúsculas. Sus expresiones se compilan una sola vez.
+   */
+  createPatternCaseFunction(routePattern: string): (urlPath: string) => string | null {
     const pathToRegexpPattern = this.convertToPathToRegexpPattern(routePattern);
-    const matchFn = match(pathToRegexpPattern, { decode: decodeURIComponent });
-    const result = matchFn(urlPath);
-    
-    return result !== false;
+    const matchFn = match(pathToRegexpPattern, { sensitive: false });
+    const toPath = compile(pathToRegexpPattern, { encode: value => value, validate: false });
+
+    return urlPath => {
+      const result = matchFn(urlPath);
+      return result ? toPath(result.params) : null;
+    };
   }
 
   /**
@@ -121,7 +177,7 @@ export class ParameterExtractor {
   /**
    * Extrae parámetros usando path-to-regexp (alias para extractParameters)
    */
-  extractWithRegex(urlPath: string, routePattern: string): RouteParams {
+  extractWithRegex(urlPath: string, routePattern: string): TypedRouteParams {
     return this.extractParameters(urlPath, routePattern);
   }
 
@@ -132,16 +188,69 @@ export class ParameterExtractor {
     let pattern = this.normalizePath(routePattern);
     
     // Convertir asterisco simple /* a :segments(.+) para capturar uno o más segmentos
-    pattern = pattern.replace(/\/\*$/, '/:segments(.+)');
+    pattern = pattern.replace(WILDCARD_SUFFIX, '/:segments(.+)');
     
-    // Convertir segmentos variables [...param] a :param(.*)
-    pattern = pattern.replace(/\[\.\.\.([^\]]+)\]/g, ':$1(.*)');    
-    // Convertir parámetros únicos [param] a :param
-    pattern = pattern.replace(/\[([^\]]+)\]/g, ':$1');
+    // Convertir cada parámetro, desde el final para no alterar las posiciones pendientes
+    for (const token of findParameterTokens(pattern).reverse()) {
+      // Los parámetros opcionales incluyen la barra previa para que sea opcional también
+      const start = token.optional && pattern[token.start - 1] === '/' ? token.start - 1 : token.start;
+      pattern = pattern.slice(0, start) +
+        this.convertTokenToPathToRegexp(token, start < token.start, pattern.slice(token.end)) +
+        pattern.slice(token.end);
+    }
     
     return pattern;
   }
 
+  /**
+   * Convierte un parámetro individual al formato path-to-regexp
+   */
+  private convertTokenToPathToRegexp(token: ParameterToken, withSlash: boolean, rest: string): string {
+    const prefix = withSlash ? '/' : '';
+    
+    if (token.variable) {
+      // [[...param]] → /:param* (cero o más segmentos), [...param] → :param(.*)
+      return token.optional ? `${prefix}:${token.name}*` : `:${token.name}(${token.constraint ?? '.*'})`;
+    }
+    
+    // [param] → :param, [param:int] → :param(\d+), [param(en|es)] → :param(en|es), [[param]] → /:param?
+    // Si al parámetro le sigue texto estático (ej: [id]abc), el patrón explícito delimita el nombre
+    const defaultPattern = /^\w/.test(rest) ? '[^\\/#\\?]+?' : undefined;
+    const pattern = token.constraint ?? (token.type ? getParameterTypePattern(token.type) : defaultPattern);
+    const constraint = pattern ? `(${pattern})` : '';
+    return `${prefix}:${token.name}${constraint}${token.optional ? '?' : ''}`;
+  }
+
+  /**
+   * Convierte el patrón de ruta a los patrones que entiende Hono (:param, :param{regex}).
+   * Los segmentos opcionales generan una variante adicional sin el segmento.
+   */
+  public convertToHonoPatterns(routePattern: string): string[] {
+    let variants: string[][] = [[]];
+    
+    for (const segment of this.normalizePath(routePattern).split('/').filter(Boolean)) {
+      const tokens = findParameterTokens(segment);
+      
+      if (tokens.length === 0) {
+        variants = variants.map(variant => [...variant, segment]);
+        continue;
+      }
+      
+      // Hono solo preselecciona la ruta; las restricciones de tipo y el texto estático de los
+      // segmentos parciales (ej: post-[slug], [name].[ext]) se verifican con path-to-regexp
+      const [token] = tokens;
+      const isVariable = tokens.some(segmentToken => segmentToken.variable);
+      const honoSegment = isVariable ? `:${token.name}{.+}` : `:${token.name}`;
+      if (token.optional && token.raw === segment) {
+        variants = [...variants, ...variants.map(variant => [...variant, honoSegment])];
+      } else {
+        variants = variants.map(variant => [...variant, honoSegment]);
+      }
+    }
+    
+    return variants.map(variant => '/' + variant.join('/'));
+  }
+
   /**
    * Normaliza una ruta eliminando barras duplicadas y finales
    */
@@ -149,7 +258,7 @@ export class ParameterExtractor {
     return path
       .replace(/\/+/g, '/') // Eliminar barras duplicadas
       .replace(/\/$/, '') // Eliminar barra final
-      .replace(/^\//, '/'); // Asegurar barra inicial
+      .replace(/^\//, '/') || '/'; // Asegurar barra inicial (la raíz se mantiene como /)
   }
 
   /**
@@ -176,20 +285,20 @@ export class ParameterExtractor {
   }
 
   /**
-   * Verifica si un nombre de parámetro corresponde a un segmento variable
-   */
-  private isVariableSegmentName(paramName: string, routePattern: string): boolean {
-    return routePattern.includes(`[...${paramName}]`);
-  }
-
-  /**
-   * Convierte parámetros a tipos apropiados
+   * Convierte parámetros a tipos apropiados. Si se indican los tipos declarados
+   * (ej: { id: 'int' }), solo se convierten esos parámetros según su tipo.
    */
-  convertParameterTypes(params: RouteParams): Record<string, any> {
+  convertParameterTypes(
+    params: TypedRouteParams,
+    parameterTypes?: { [name: string]: string }
+  ): Record<string, any> {
     const converted: Record<string, any> = {};
     
     for (const [key, value] of Object.entries(params)) {
-      if (Array.isArray(value)) {
+      if (parameterTypes) {
+        const parameterType = PARAMETER_TYPES[parameterTypes[key]];
+        converted[key] = parameterType && typeof value === 'string' ? parameterType.convert(value) : value;
+      } else if (Array.isArray(value)) {
         converted[key] = value;
       } else if (typeof value === 'string') {
         // Intentar convertir números
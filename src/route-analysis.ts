@@ -0,0 +1,222 @@
+import { RouteInfo, RouteType, RouteConflict, RouteParameter } from '../types';
+import { findParameterTokens } from './route-pattern';
+
+/**
+ * Rango de especificidad del final de una ruta (entre parámetros obligatorios y opcionales)
+ */
+const END_OF_PATH_RANK = 4;
+
+/**
+ * Obtiene las rutas de archivo legibles para los mensajes de conflicto
+ */
+export type RouteFilesDescriber = (routes: RouteInfo[]) => string[];
+
+/**
+ * Detecta archivos distintos que resuelven a la misma ruta de API
+ * (ej: users.ts y users/index.ts, o users.get.ts y users/index.get.ts)
+ */
+export function findRouteConflicts(
+  routes: RouteInfo[],
+  describeFiles: RouteFilesDescriber = getRouteFilePaths
+): RouteConflict[] {
+  const routesByKey = new Map<string, RouteInfo[]>();
+
+  for (const route of routes) {
+    // Los archivos con sufijo de método solo compiten con otros del mismo método
+    const key = `${route.fileMethod || '*'} ${route.path}`;
+    const sameKey = routesByKey.get(key) || [];
+    sameKey.push(route);
+    routesByKey.set(key, sameKey);
+  }
+
+  const conflicts: RouteConflict[] = [];
+  for (const sameKey of routesByKey.values()) {
+    if (sameKey.length > 1) {
+      const { path } = sameKey[0];
+      const filePaths = sameKey.map(route => route.filePath);
+      const files = describeFiles(sameKey);
+      conflicts.push({
+        type: 'duplicate',
+        path,
+        filePaths,
+        message: `Route conflict: '${path}' is defined by multiple files (${files.join(', ')})`
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Detecta rutas distintas cuyos patrones capturan las mismas URLs
+ * (ej: users/[id].ts y users/[userId].ts); solo una de ellas puede responder
+ */
+export function findAmbiguousRoutes(
+  routes: RouteInfo[],
+  describeFiles: RouteFilesDescriber = getRouteFilePaths
+): RouteConflict[] {
+  const routesBySignature = new Map<string, RouteInfo[]>();
+
+  for (const route of routes) {
+    const signature = getRouteSignature(route.path);
+    const sameSignature = routesBySignature.get(signature) || [];
+    sameSignature.push(route);
+    routesBySignature.set(signature, sameSignature);
+  }
+
+  const conflicts: RouteConflict[] = [];
+  for (const sameSignature of routesBySignature.values()) {
+    const paths = [...new Set(sameSignature.map(route => route.path))];
+    // Los archivos con sufijo de método solo compiten si comparten método (o alguno no lo declara)
+    const methods = sameSignature.map(route => route.fileMethod);
+    const overlaps = methods.includes(undefined) || new Set(methods).size < methods.length;
+    if (paths.length > 1 && overlaps) {
+      const filePaths = sameSignature.map(route => route.filePath);
+      const files = describeFiles(sameSignature);
+      conflicts.push({
+        type: 'ambiguous',
+        path: paths[0],
+        filePaths,
+        message: `Ambiguous routes: ${paths.map(path => `'${path}'`).join(', ')} match the same URLs (${files.join(', ')})`
+      });
+    }
+  }
+
+  return conflicts;
+}
+
+/**
+ * Ordena las rutas por especificidad para que Hono evalúe primero las más concretas:
+ * estáticas antes que parámetros, parámetros antes que segmentos variables, y más largas
+ * antes que más cortas. El orden es determinista sin importar el orden de readdir.
+ */
+export function sortRoutesBySpecificity(routes: RouteInfo[]): RouteInfo[] {
+  return [...routes].sort((a, b) =>
+    compareRouteSpecificity(a.path, b.path) ||
+    compareStrings(a.path, b.path) ||
+    compareStrings(a.fileMethod || '', b.fileMethod || '')
+  );
+}
+
+/**
+ * Determina el tipo de ruta basado en el patrón
+ */
+export function determineRouteType(routePath: string): RouteType {
+  // Ruta con segmentos variables opcionales: [[...segmentName]]
+  if (routePath.includes('[[...')) {
+    return 'optionalVariableSegments';
+  }
+
+  // Ruta con segmentos variables: [...segmentName]
+  if (routePath.includes('[...')) {
+    return 'variableSegments';
+  }
+
+  // Ruta con parámetros: [param]
+  const paramCount = findParameterTokens(routePath).length;
+  if (paramCount > 0) {
+    return paramCount === 1 ? 'singleParam' : 'nested';
+  }
+
+  // Ruta simple
+  return 'simple';
+}
+
+/**
+ * Obtiene todos los parámetros de una ruta
+ */
+export function getRouteParameters(routePath: string): string[] {
+  return findParameterTokens(routePath).map(token => token.name);
+}
+
+/**
+ * Obtiene los parámetros de una ruta indicando cuáles son opcionales o variables
+ */
+export function getRouteParameterDetails(routePath: string): RouteParameter[] {
+  return findParameterTokens(routePath).map(({ raw, start, end, ...parameter }) => parameter);
+}
+
+/**
+ * Rutas de archivo tal como las guarda cada ruta (describe los archivos por defecto)
+ */
+function getRouteFilePaths(routes: RouteInfo[]): string[] {
+  return routes.map(route => route.filePath);
+}
+
+/**
+ * Obtiene la forma de una ruta sin los nombres de sus parámetros
+ * (ej: /users/[id] y /users/[userId] → /users/[])
+ */
+function getRouteSignature(routePath: string): string {
+  let signature = routePath;
+  for (const token of findParameterTokens(routePath).reverse()) {
+    const type = token.type ? `:${token.type}` : '';
+    const constraint = token.constraint !== undefined ? `(${token.constraint})` : '';
+    const shape = `${token.variable ? '...' : ''}${type}${constraint}`;
+    const marker = token.optional ? `[[${shape}]]` : `[${shape}]`;
+    signature = signature.slice(0, token.start) + marker + signature.slice(token.end);
+  }
+  return signature;
+}
+
+/**
+ * Compara dos rutas segmento a segmento según su especificidad. El final de la ruta
+ * cuenta como un segmento más: va después de los parámetros obligatorios (la ruta más
+ * larga primero) y antes de los opcionales (ej: /docs antes que /docs/[[...slug]]).
+ */
+function compareRouteSpecificity(pathA: string, pathB: string): number {
+  const ranksA = getSegmentRanks(pathA);
+  const ranksB = getSegmentRanks(pathB);
+
+  for (let index = 0; index < Math.min(ranksA.length, ranksB.length); index++) {
+    if (ranksA[index] !== ranksB[index]) {
+      return ranksA[index] - ranksB[index];
+    }
+  }
+
+  return ranksA.length - ranksB.length;
+}
+
+/**
+ * Rangos de especificidad de los segmentos de una ruta, terminados por el rango del final
+ */
+function getSegmentRanks(routePath: string): number[] {
+  const ranks = routePath.split('/').filter(Boolean).map(getSegmentRank);
+  return [...ranks, END_OF_PATH_RANK];
+}
+
+/**
+ * Rango de especificidad de un segmento (menor es más específico)
+ */
+function getSegmentRank(segment: string): number {
+  const tokens = findParameterTokens(segment);
+
+  // Segmento estático: users
+  if (tokens.length === 0) {
+    return 0;
+  }
+
+  // Segmento parcial con texto estático: post-[slug], [name].[ext]
+  const [token] = tokens;
+  if (tokens.length > 1 || token.raw !== segment) {
+    return 1;
+  }
+
+  if (token.variable) {
+    return token.optional ? 7 : 6; // [[...slug]] : [...slug]
+  }
+
+  if (token.optional) {
+    return 5; // [[param]]
+  }
+
+  // Los parámetros tipados o con restricción ([id:int], [code(\d{3})]) antes que los libres ([id])
+  return token.type || token.constraint !== undefined ? 2 : 3;
+}
+
+/**
+ * Compara dos cadenas por código de carácter (independiente del locale)
+ */
+export function compareStrings(a: string, b: string): number {
+  return a < b ? -1 : a > b ? 1 : 0;
+}
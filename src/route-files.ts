@@ -0,0 +1,45 @@
+/**
+ * Extensiones de archivos de ruta admitidas por defecto
+ */
+export const DEFAULT_ROUTE_EXTENSIONS = ['.ts', '.tsx', '.mts', '.js', '.jsx', '.mjs', '.cjs'];
+
+/**
+ * Patrones que excluyen los archivos de test (*.test.ts, *.spec.tsx, ...) de cada extensión
+ */
+export function getTestFilePatterns(extensions: string[]): string[] {
+  return extensions.flatMap(extension => [`*.test${extension}`, `*.spec${extension}`]);
+}
+
+/**
+ * Extensión de archivo de ruta al final de un nombre (.ts, .tsx, .mts, .js, .jsx, .mjs, .cjs)
+ */
+export function getRouteExtensionPattern(extensions: string[] = DEFAULT_ROUTE_EXTENSIONS): RegExp {
+  return new RegExp(`(${extensions.map(extension => extension.replace('.', '\\.')).join('|')})$`);
+}
+
+/**
+ * Función de utilidad para validar nombre de archivo de ruta. Acepta también la ruta
+ * relativa del archivo (ej: users/_helpers/db.ts) y las extensiones configuradas.
+ */
+export function isValidRouteFile(fileName: string, extensions?: string[]): boolean {
+  // Debe tener una extensión de archivo de ruta (.ts, .tsx, .mjs, ...)
+  const extensionPattern = getRouteExtensionPattern(extensions);
+  if (!extensionPattern.test(fileName)) {
+    return false;
+  }
+  
+  // No debe ser un archivo de test
+  const segments = fileName.replace(extensionPattern, '').split('/');
+  const baseName = segments[segments.length - 1];
+  if (/\.(test|spec)$/.test(baseName)) {
+    return false;
+  }
+  
+  // No debe comenzar con punto o guión bajo
+  if (baseName.startsWith('.') || baseName.startsWith('_')) {
+    return false;
+  }
+  
+  // Las carpetas privadas (_carpeta/) tampoco contienen rutas
+  return !segments.some(segment => segment.startsWith('_'));
+}
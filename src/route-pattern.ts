@@ -0,0 +1,119 @@
+import { RouteParameter } from '../types';
+
+/**
+ * Parámetro encontrado en un patrón de ruta ([id], [...segments], [[slug]], [id:int], [code(\d{3})])
+ */
+export interface ParameterToken extends RouteParameter {
+  /** Texto original del parámetro en el patrón */
+  raw: string;
+  /** Posición inicial en el patrón */
+  start: number;
+  /** Posición final (exclusiva) en el patrón */
+  end: number;
+}
+
+/**
+ * Encuentra, en orden, los parámetros declarados en un patrón de ruta
+ */
+export function findParameterTokens(routePattern: string): ParameterToken[] {
+  const tokens: ParameterToken[] = [];
+  let index = routePattern.indexOf('[');
+  
+  while (index !== -1) {
+    const token = parseParameterToken(routePattern, index);
+    index = routePattern.indexOf('[', token ? token.end : index + 1);
+    if (token) {
+      tokens.push(token);
+    }
+  }
+  
+  return tokens;
+}
+
+/**
+ * Interpreta el parámetro que comienza en la posición indicada, o null si no es un parámetro válido
+ */
+function parseParameterToken(routePattern: string, start: number): ParameterToken | null {
+  const optional = routePattern.startsWith('[[', start);
+  let index = start + (optional ? 2 : 1);
+  
+  // Segmentos variables: [...param] o [[...param]]
+  const variable = routePattern.startsWith('...', index);
+  if (variable) {
+    index += 3;
+  }
+  
+  // Nombre del parámetro
+  const nameMatch = /^[^\[\]:()\/]+/.exec(routePattern.slice(index));
+  if (!nameMatch) {
+    return null;
+  }
+  const name = nameMatch[0];
+  index += name.length;
+  
+  // Tipo declarado: [id:int]
+  let type: string | undefined;
+  if (routePattern[index] === ':') {
+    const typeMatch = /^[A-Za-z]+/.exec(routePattern.slice(index + 1));
+    if (!typeMatch) {
+      return null;
+    }
+    type = typeMatch[0];
+    index += 1 + type.length;
+  }
+  
+  // Restricción con expresión regular: [code(\d{3})]
+  let constraint: string | undefined;
+  if (!type && routePattern[index] === '(') {
+    const constraintEnd = findClosingParenthesis(routePattern, index);
+    if (constraintEnd === -1) {
+      return null;
+    }
+    constraint = routePattern.slice(index + 1, constraintEnd);
+    index = constraintEnd + 1;
+  }
+  
+  const closing = optional ? ']]' : ']';
+  if (!routePattern.startsWith(closing, index)) {
+    return null;
+  }
+  const end = index + closing.length;
+  
+  return {
+    name,
+    optional,
+    variable,
+    ...(type && { type }),
+    ...(constraint !== undefined && { constraint }),
+    raw: routePattern.slice(start, end),
+    start,
+    end
+  };
+}
+
+/**
+ * Busca el paréntesis que cierra el abierto en la posición indicada,
+ * ignorando caracteres escapados y clases de caracteres
+ */
+function findClosingParenthesis(pattern: string, start: number): number {
+  let depth = 0;
+  let inCharacterClass = false;
+  
+  for (let index = start; index < pattern.length; index++) {
+    const char = pattern[index];
+    
+    if (char === '\\') {
+      index++;
+    } else if (inCharacterClass) {
+      inCharacterClass = char !== ']';
+    } else if (char === '[') {
+      inCharacterClass = true;
+    } else if (char === '(') {
+      depth++;
+    } else if (char === ')' && --depth === 0) {
+      return index;
+    }
+  }
+  
+  return -1;
+}
@@ -1,491 +1,208 @@
-import { Hono, Context } from 'hono';
+import { Hono } from 'hono';
 import { RouteScanner } from './scanner';
-import { ParameterExtractor } from './parameter-extractor';
-import { ErrorHandler } from './error-handler';
+import { DEFAULT_ROUTE_EXTENSIONS, getTestFilePatterns } from './route-files';
+import { ManifestRouteFile, createRouteManifest, readRouteManifest, findStaleManifestFiles } from './manifest';
+import { generateStaticRoutesModule, StaticRoutesModuleOptions } from './static-routes';
+import { NodeFileSystem } from './file-system';
+import { StaticRouter, getRoutesRoots, joinPrefixes } from './static-router';
 import {
   RouterConfig,
-  RegisteredRoute,
-  RouterStats,
   RouterInitResult,
-  HonoRouter,
-  HTTPMethod,
-  RouteParams
+  RouteManifest,
+  StaticRouteTable,
+  RouteFileSystem
 } from '../types';
 import { RouteInfo } from '../types/route';
-import { ExtendedContext } from '../types/handler';
-import * as path from 'path';
-import * as fs from 'fs';
 
 /**
- * Interfaz para handlers exportados por archivos de ruta
+ * Router principal que maneja rutas dinámicas basadas en estructura de carpetas: escanea los
+ * directorios de rutas (o lee su manifiesto) y registra las rutas como StaticRouter
  */
-interface RouteFileHandler {
-  get?: (c: ExtendedContext) => Promise<Response> | Response;
-  post?: (c: ExtendedContext) => Promise<Response> | Response;
-  put?: (c: ExtendedContext) => Promise<Response> | Response;
-  delete?: (c: ExtendedContext) => Promise<Response> | Response;
-  patch?: (c: ExtendedContext) => Promise<Response> | Response;
-  head?: (c: ExtendedContext) => Promise<Response> | Response;
-  options?: (c: ExtendedContext) => Promise<Response> | Response;
-}
-
-/**
- * Router principal que maneja rutas dinámicas basadas en estructura de carpetas
- */
-export class Router implements HonoRouter {
-  private app: Hono;
-  public config: RouterConfig;
+export class Router extends StaticRouter {
+  declare protected fileSystem: RouteFileSystem;
   private scanner: RouteScanner;
-  private parameterExtractor: ParameterExtractor;
-  private errorHandler: ErrorHandler;
-  private registeredRoutes: RegisteredRoute[] = [];
-  private stats: RouterStats;
+  private scanners: RouteScanner[];
+  private routeFiles: ManifestRouteFile[] = [];
 
   constructor(config: RouterConfig) {
-    // Validar configuración requerida
-    if (!config.routesDirectory) {
+    // Validar configuración requerida (una tabla estática no necesita directorio de rutas)
+    if (!config.staticRoutes && (!config.routesDirectory || getRoutesRoots(config).length === 0)) {
       throw new Error('routesDirectory is required');
     }
     
-    // Validar que el directorio existe
-    try {
-      const fs = require('fs');
-      if (!fs.existsSync(config.routesDirectory)) {
-        throw new Error(`Routes directory does not exist: ${config.routesDirectory}`);
-      }
-    } catch (error) {
-      if (error instanceof Error && error.message.includes('does not exist')) {
-        throw error;
+    // Validar que los directorios existen
+    const fileSystem = config.fileSystem || new NodeFileSystem();
+    if (!config.staticRoutes) {
+      try {
+        for (const root of getRoutesRoots(config)) {
+          if (!fileSystem.exists(root.dir)) {
+            throw new Error(`Routes directory does not exist: ${root.dir}`);
+          }
+        }
+      } catch (error) {
+        if (error instanceof Error && error.message.includes('does not exist')) {
+          throw error;
+        }
+        // Si hay otro error (como permisos), continuar pero advertir
+        console.warn(`Warning: Could not verify routes directory: ${error}`);
       }
-      // Si hay otro error (como permisos), continuar pero advertir
-      console.warn(`Warning: Could not verify routes directory: ${error}`);
     }
     
-    const defaultConfig = {
-      routesDirectory: './src/routes',
-      enableLogging: true
-    };
+    super(config);
+
+    this.fileSystem = fileSystem;
+    // Cada directorio raíz se escanea con su propio escáner y prefijo
+    const extensions = this.config.extensions || DEFAULT_ROUTE_EXTENSIONS;
+    this.scanners = getRoutesRoots(this.config).map(root => new RouteScanner({
+      baseDir: root.dir,
+      prefix: joinPrefixes(this.config.basePrefix, root.prefix),
+      extensions,
+      ignore: [...getTestFilePatterns(extensions), ...(this.config.excludePatterns || [])],
+      indexFileName: this.config.indexFileName || 'index',
+      routeFilePattern: this.config.routeFilePattern,
+      followSymlinks: this.config.followSymlinks,
+      concurrency: this.config.concurrency,
+      methods: this.config.methods,
+      fileSystem
+    }));
+    this.scanner = this.scanners[0];
+  }
+
+  /**
+   * Obtiene la información de las rutas de la tabla estática, del manifiesto o escaneando los directorios
+   */
+  protected async loadRouteInfos(): Promise<RouteInfo[]> {
+    if (this.config.staticRoutes) {
+      this.routeFiles = [];
+      return super.loadRouteInfos();
+    }
     
-    this.config = {
-      ...defaultConfig,
-      ...config
-    };
-
-    this.app = new Hono();
-    this.scanner = new RouteScanner({
-      baseDir: this.config.routesDirectory,
-      extensions: ['.ts', '.js'],
-      ignore: ['index.ts', 'index.js', '*.test.ts', '*.spec.ts']
-    });
-    this.parameterExtractor = new ParameterExtractor();
-    this.errorHandler = new ErrorHandler(this.config.errorHandling);
+    // Verificar que los directorios existen
+    for (const root of getRoutesRoots(this.config)) {
+      if (!this.fileSystem.exists(root.dir)) {
+        throw new Error(`Routes directory does not exist: ${root.dir}`);
+      }
+    }
     
-    this.stats = {
-      totalRoutes: 0,
-      totalFiles: 0,
-      routesByMethod: {},
-      routesByType: {
-        simple: 0,
-        singleParam: 0,
-        variableSegments: 0,
-        nested: 0
-      },
-      lastScanTime: null,
-      processingTime: 0
-    };
+    this.routeFiles = this.config.manifest
+      ? await this.loadManifest(this.config.manifest)
+      : await this.scanRouteFiles();
+    return this.routeFiles.map(routeFile => routeFile.routeInfo);
   }
 
   /**
-   * Inicializa el router y escanea las rutas
+   * Los archivos de los mensajes de conflicto se muestran relativos a su directorio raíz
    */
-  async init(): Promise<RouterInitResult> {
-    return this.initialize();
+  protected describeRouteFiles(routeInfos: RouteInfo[]): string[] {
+    return this.scanner.describeRouteFiles(routeInfos);
   }
 
   /**
-   * Refresca las rutas escaneando nuevamente
+   * Escanea los directorios de rutas y convierte cada archivo a información de ruta
    */
-  async refresh(): Promise<RouterInitResult> {
-    // Limpiar rutas existentes
-    this.registeredRoutes = [];
-    this.stats.totalRoutes = 0;
-    this.stats.totalFiles = 0;
-    this.stats.routesByMethod = {};
-    this.stats.routesByType = {
-      simple: 0,
-      singleParam: 0,
-      variableSegments: 0,
-      nested: 0
-    };
+  private async scanRouteFiles(): Promise<ManifestRouteFile[]> {
+    const routeFiles: ManifestRouteFile[] = [];
     
-    return this.initialize();
-  }
-
-  /**
-   * Inicializa el router y escanea las rutas
-   */
-  async initialize(): Promise<RouterInitResult> {
-    const startTime = Date.now();
-    try {
-      this.log('info', 'Initializing router...');
-      
-      // Verificar que el directorio existe
-      const fs = require('fs');
-      if (!fs.existsSync(this.config.routesDirectory)) {
-        throw new Error(`Routes directory does not exist: ${this.config.routesDirectory}`);
-      }
-      
-      // Escanear rutas
-      const routeFiles = await this.scanner.scanRoutes();
-      this.log('info', `Found ${routeFiles.length} route files`);
-
-      // Convertir y registrar rutas
-      for (const routeFile of routeFiles) {
-        const routeInfo = await this.scanner.fileToRouteInfo(routeFile);
-        await this.registerRoute(routeInfo);
-      }
-
-      // Registrar middleware de manejo de errores
-      this.app.use('*', this.errorHandler.createErrorMiddleware());
-
-      // Registrar manejador 404
-      this.app.notFound((c) => {
-        return this.errorHandler.handle404(c, c.req.path);
-      });
-
-      // Actualizar estadísticas
-      this.stats.totalFiles = routeFiles.length;
-      this.stats.processingTime = Date.now() - startTime;
-      this.updateStats();
-
-      this.log('info', `Router initialized with ${this.registeredRoutes.length} routes`);
-
-      return {
-        success: true,
-        routesRegistered: this.registeredRoutes.length,
-        stats: this.stats
-      };
-    } catch (error) {
-      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
-      this.log('error', 'Failed to initialize router', error);
-      return {
-        success: false,
-        error: errorMessage,
-        routesRegistered: 0
-      };
-    }
-  }
-
-  /**
-   * Registra una ruta individual
-   */
-  public async registerRoute(routeInfo: RouteInfo): Promise<void> {
-    try {
-      // Cargar el handler del archivo
-      const handler = await this.loadRouteHandler(routeInfo.filePath);
-      
-      if (!handler) {
-        this.log('warn', `No handler found for route: ${routeInfo.path}`);
-        return;
-      }
-
-      // Determinar métodos HTTP soportados
-      const methods = this.getSupportedMethods(handler);
-      
-      for (const method of methods) {
-        this.registerRouteMethod(routeInfo, method, handler);
+    for (const scanner of this.scanners) {
+      for (const metadata of await scanner.scanRoutes()) {
+        routeFiles.push({ metadata, routeInfo: await scanner.fileToRouteInfo(metadata), methods: [] });
       }
-
-      // Agregar a rutas registradas
-      this.registeredRoutes.push({
-        path: routeInfo.path,
-        filePath: routeInfo.filePath,
-        type: routeInfo.type,
-        methods,
-        parameters: routeInfo.parameters,
-        
-      });
-      
-      this.log('info', `Registered route: ${methods.join(', ')} ${routeInfo.path}`);
-    } catch (error) {
-      this.log('error', `Failed to register route: ${routeInfo.path}`, error);
     }
-  }
-
-  /**
-   * Registra un método específico para una ruta
-   */
-  private registerRouteMethod(
-    routeInfo: RouteInfo,
-    method: HTTPMethod,
-    handler: RouteFileHandler
-  ): void {
-    const routePath = this.convertToHonoPath(routeInfo.path);
     
-    this.app.on(method, routePath, async (c: Context) => {
-      try {
-        // Extraer parámetros
-        const params = this.extractRouteParameters(c.req.path, routeInfo);
-        
-        // TODO: Implementar validación de parámetros si es necesario
-
-        // Crear contexto extendido
-        const extendedContext = c as ExtendedContext;
-        extendedContext.routeParams = params;
-
-        // Ejecutar handler
-        const methodHandler = handler[method.toLowerCase() as keyof RouteFileHandler];
-        if (typeof methodHandler === 'function') {
-          return await methodHandler(extendedContext);
-        }
-
-        // Si no hay handler para este método
-        const allowedMethods = this.getSupportedMethods(handler);
-        return this.errorHandler.handleMethodNotAllowed(
-          c,
-          c.req.path,
-          allowedMethods
-        );
-      } catch (error) {
-        return this.errorHandler.handleInternalError(
-          c,
-          error instanceof Error ? error : new Error('Unknown error'),
-          c.req.path
-        );
-      }
-    });
+    return routeFiles;
   }
 
   /**
-   * Carga el handler de una ruta desde un archivo
+   * Carga los archivos de ruta desde un manifiesto, verificando que esté al día si se configuró
    */
-  private async loadRouteHandler(filePath: string): Promise<RouteFileHandler | null> {
-    try {
-      if (!fs.existsSync(filePath)) {
-        this.log('warn', `File does not exist: ${filePath}`);
-        return null;
-      }
-
-      this.log('info', `Loading handler from: ${filePath}`);
-      
-      // Importar el módulo usando import dinámico
-      const module = await import(filePath);
-      
-      this.log('info', `Module loaded, keys: ${Object.keys(module).join(', ')}`);
-      
-      // Buscar el handler (export default, named export, o funciones exportadas directamente)
-      let handler = module.default || module.handler;
-      
-      // Si no hay handler, crear uno a partir de las funciones exportadas
-      if (!handler) {
-        handler = {};
-        const httpMethods = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
-        
-        for (const method of httpMethods) {
-          if (typeof module[method] === 'function') {
-            handler[method] = module[method];
-          }
-        }
-        
-        // Si no se encontraron métodos HTTP, no es un handler válido
-        if (Object.keys(handler).length === 0) {
-          this.log('warn', `No HTTP methods found in file: ${filePath}`);
-          return null;
-        }
+  private async loadManifest(manifestPath: string): Promise<ManifestRouteFile[]> {
+    this.log('info', `Loading routes from manifest: ${manifestPath}`);
+    const routeFiles = await readRouteManifest(manifestPath, this.fileSystem);
+    
+    if (this.config.manifestCheck) {
+      // Se listan los directorios (sin importar los archivos) para detectar archivos nuevos
+      const currentFiles: string[] = [];
+      for (const scanner of this.scanners) {
+        currentFiles.push(...(await scanner.scanRoutes()).map(metadata => metadata.filePath));
       }
       
-      if (!handler || typeof handler !== 'object') {
-        this.log('warn', `Invalid handler in file: ${filePath}`);
-        return null;
-      }
-
-      return handler as RouteFileHandler;
-    } catch (error) {
-      this.log('error', `Failed to load handler from: ${filePath}`, error);
-      return null;
-    }
-  }
-
-  /**
-   * Obtiene los métodos HTTP soportados por un handler
-   */
-  private getSupportedMethods(handler: RouteFileHandler): HTTPMethod[] {
-    const methods: HTTPMethod[] = [];
-    const httpMethods: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
-    
-    for (const method of httpMethods) {
-      const methodName = method.toLowerCase() as keyof RouteFileHandler;
-      if (typeof handler[methodName] === 'function') {
-        methods.push(method);
+      const staleFiles = await findStaleManifestFiles(
+        routeFiles,
+        currentFiles,
+        this.config.manifestCheck,
+        this.fileSystem,
+        this.config.concurrency
+      );
+      if (staleFiles.length > 0) {
+        throw new Error(
+          `Route manifest ${manifestPath} is stale: ${staleFiles.length} file(s) added, changed ` +
+          `or removed since it was generated (${staleFiles.join(', ')})`
+        );
       }
     }
     
-    return methods;
-  }
-
-  /**
-   * Convierte una ruta de API a formato compatible con Hono usando path-to-regexp
-   */
-  private convertToHonoPath(apiPath: string): string {
-    // Usar el mismo convertidor que ParameterExtractor para consistencia
-    return this.parameterExtractor.convertToPathToRegexpPattern(apiPath);
-  }
-
-  /**
-   * Extrae parámetros de una ruta
-   */
-  private extractRouteParameters(requestPath: string, routeInfo: RouteInfo): RouteParams {
-    return this.parameterExtractor.extractParameters(requestPath, routeInfo.path);
+    return routeFiles;
   }
 
   /**
-   * Actualiza las estadísticas del router
+   * Escribe el manifiesto de rutas (archivos, rutas y métodos) para iniciar sin escanear
    */
-  private updateStats(): void {
-    this.stats.totalRoutes = this.registeredRoutes.length;
-    this.stats.lastScanTime = new Date();
+  async writeManifest(manifestPath: string): Promise<RouteManifest> {
+    if (!this.stats.lastScanTime) {
+      throw new Error('Router must be initialized before writing a route manifest');
+    }
     
-    // Resetear contadores
-    this.stats.routesByMethod = {};
-    this.stats.routesByType = {
-      simple: 0,
-      singleParam: 0,
-      variableSegments: 0,
-      nested: 0
-    };
+    // Métodos que registra cada archivo (un archivo con sufijo solo registra su método)
+    const routeFiles = this.routeFiles.map(({ metadata, routeInfo }) => {
+      const route = this.registeredRoutes.find(registered => registered.path === routeInfo.path);
+      const methods = Object.entries(route?.methodFiles || {})
+        .filter(([, filePath]) => filePath === routeInfo.filePath)
+        .map(([method]) => method);
+      return { metadata, routeInfo, methods };
+    });
     
-    // Contar por método y tipo
-    for (const route of this.registeredRoutes) {
-      // Contar por método
-      for (const method of route.methods) {
-        this.stats.routesByMethod[method] = (this.stats.routesByMethod[method] || 0) + 1;
-      }
-      
-      // Contar por tipo
-      this.stats.routesByType[route.type]++;
+    if (!this.fileSystem.writeFile) {
+      throw new Error(`Cannot write route manifest ${manifestPath}: the file system does not support writeFile`);
     }
-  }
-
-  /**
-   * Obtiene la instancia de Hono configurada
-   */
-  getApp(): Hono {
-    return this.app;
-  }
-
-  /**
-   * Obtiene las rutas registradas
-   */
-  getRoutes(): RegisteredRoute[] {
-    return [...this.registeredRoutes];
-  }
-
-  /**
-   * Obtiene las estadísticas del router
-   */
-  getStats(): RouterStats {
-    return { ...this.stats };
-  }
-
-  /**
-   * Obtiene la configuración del router
-   */
-  getConfig(): RouterConfig {
-    return { ...this.config };
-  }
-
-  /**
-   * Reescanea las rutas y actualiza el router
-   */
-  async rescan(): Promise<RouterInitResult> {
-    this.log('info', 'Rescanning routes...');
     
-    // Limpiar rutas existentes
-    this.registeredRoutes = [];
-    this.app = new Hono();
+    const manifest = await createRouteManifest(manifestPath, routeFiles, this.fileSystem, this.config.concurrency);
+    await this.fileSystem.writeFile(manifestPath, JSON.stringify(manifest, null, 2));
     
-    // Reinicializar
-    return await this.initialize();
-  }
-
-  /**
-   * Agrega una ruta manualmente
-   */
-  addRoute(
-    path: string,
-    handler: RouteFileHandler,
-    methods: HTTPMethod[] = ['GET']
-  ): void {
-    const routeInfo: RouteInfo = {
-      pattern: path,
-      path: path,
-      type: path.includes('[') ? 
-        (path.includes('[...') ? 'variableSegments' : 'singleParam') : 
-        'simple',
-      params: {},
-      parameters: this.scanner.extractParameters(path),
-      filePath: 'manual',
-      method: 'GET'
-    };
-
-    for (const method of methods) {
-      this.registerRouteMethod(routeInfo, method, handler);
-    }
-
-    this.registeredRoutes.push({
-      path,
-      filePath: 'manual',
-      type: routeInfo.type,
-      methods,
-      parameters: routeInfo.parameters
-    });
-
-    this.updateStats();
-    this.log('info', `Manually added route: ${methods.join(', ')} ${path}`);
+    this.log('info', `Route manifest written to ${manifestPath} (${manifest.entries.length} files)`);
+    return manifest;
   }
 
   /**
-   * Elimina una ruta
+   * Genera un módulo TypeScript con imports estáticos de cada archivo de ruta y la tabla
+   * de rutas, para registrarla con StaticRouter.fromStaticRoutes() en entornos sin sistema de archivos
    */
-  removeRoute(path: string): boolean {
-    const index = this.registeredRoutes.findIndex(route => route.path === path);
-    if (index !== -1) {
-      this.registeredRoutes.splice(index, 1);
-      this.updateStats();
-      this.log('info', `Removed route: ${path}`);
-      return true;
+  async writeStaticRoutes(outputPath: string, options: StaticRoutesModuleOptions = {}): Promise<string> {
+    if (!this.stats.lastScanTime) {
+      throw new Error('Router must be initialized before writing static routes');
     }
-    return false;
-  }
-
-  /**
-   * Verifica si una ruta existe
-   */
-  hasRoute(path: string): boolean {
-    return this.registeredRoutes.some(route => route.path === path);
-  }
-
-  /**
-   * Busca rutas por patrón
-   */
-  findRoutes(pattern: string | RegExp): RegisteredRoute[] {
-    if (typeof pattern === 'string') {
-      return this.registeredRoutes.filter(route => 
-        route.path.includes(pattern)
-      );
+    
+    if (!this.fileSystem.writeFile) {
+      throw new Error(`Cannot write static routes ${outputPath}: the file system does not support writeFile`);
     }
-    return this.registeredRoutes.filter(route => 
-      pattern.test(route.path)
-    );
+    
+    const routeInfos = this.routeFiles.map(routeFile => routeFile.routeInfo);
+    const source = generateStaticRoutesModule(outputPath, routeInfos, options);
+    await this.fileSystem.writeFile(outputPath, source);
+    
+    this.log('info', `Static routes written to ${outputPath} (${routeInfos.length} files)`);
+    return source;
   }
 
   /**
-   * Log con nivel configurable
+   * Crea un router a partir de una tabla de rutas estática generada con writeStaticRoutes().
+   * En entornos sin sistema de archivos, usar StaticRouter.fromStaticRoutes() de
+   * 'hono-my-router/static', que no importa módulos de Node.js.
    */
-  private log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
-    if (this.config.enableLogging) {
-      this.errorHandler.logError(level, `[Router] ${message}`, data);
-    }
+  static fromStaticRoutes(
+    staticRoutes: StaticRouteTable,
+    config: Partial<RouterConfig> = {}
+  ): Router {
+    return new Router({ ...config, routesDirectory: '', staticRoutes });
   }
 }
 
@@ -1,23 +1,59 @@
-import { promises as fs } from 'fs';
-import { join, relative, extname, basename, dirname } from 'path';
-import { RouteScanConfig, RouteFileMetadata, RouteInfo, RouteType } from '../types';
+import { join, relative, extname, basename, dirname, sep } from 'path';
+import { pathToRegexp } from 'path-to-regexp';
+import {
+  RouteScanConfig,
+  RouteFileMetadata,
+  RouteInfo,
+  RouteFileSystem,
+  RouteFileSystemEntry
+} from '../types';
+import { findParameterTokens } from './route-pattern';
+import { PARAMETER_TYPES } from './validation-patterns';
+import { isExcludedByGlobs, matchesGlob, parseIgnoreFile } from './glob-pattern';
+import { ConcurrencyLimit, createConcurrencyLimit, DEFAULT_CONCURRENCY } from './concurrency';
+import { NodeFileSystem } from './file-system';
+import { DEFAULT_ROUTE_EXTENSIONS, getTestFilePatterns, isValidRouteFile } from './route-files';
+import { determineRouteType, getRouteParameters, compareStrings } from './route-analysis';
+
+/**
+ * Métodos HTTP estándar que puede declarar el sufijo de un archivo (ej: profile.get.ts)
+ */
+const STANDARD_FILE_METHODS = ['get', 'post', 'put', 'delete', 'patch', 'head', 'options'];
+
+/**
+ * Archivo opcional con patrones de exclusión en el directorio de rutas
+ */
+const ROUTE_IGNORE_FILE = '.routeignore';
 
 /**
  * Escáner de archivos de rutas
  */
 export class RouteScanner {
   private config: RouteScanConfig;
+  private ignoreFilePatterns: string[] = [];
+  private limit: ConcurrencyLimit;
+  private fileSystem: RouteFileSystem;
+  private methodSuffixPattern: RegExp;
 
   constructor(config: RouteScanConfig) {
+    const extensions = config.extensions || DEFAULT_ROUTE_EXTENSIONS;
     const defaultConfig = {
-      extensions: ['.ts', '.js'],
-      ignore: ['index.ts', 'index.js', '*.test.ts', '*.spec.ts']
+      extensions,
+      ignore: getTestFilePatterns(extensions),
+      indexFileName: 'index',
+      concurrency: DEFAULT_CONCURRENCY
     };
     
     this.config = {
       ...defaultConfig,
       ...config
     };
+    this.limit = createConcurrencyLimit(this.config.concurrency);
+    this.fileSystem = this.config.fileSystem || new NodeFileSystem();
+    
+    // Sufijo de método HTTP en el nombre del archivo, incluidos los métodos de extensión configurados
+    const methods = [...STANDARD_FILE_METHODS, ...(this.config.methods || []).map(method => method.toLowerCase())];
+    this.methodSuffixPattern = new RegExp(`\\.(${methods.join('|')})$`);
   }
 
   /**
@@ -25,6 +61,7 @@ export class RouteScanner {
    */
   async scanRoutes(): Promise<RouteFileMetadata[]> {
     try {
+      this.ignoreFilePatterns = await this.loadIgnoreFile();
       const files = await this.scanDirectory(this.config.baseDir);
       const routes = files.filter(file => this.isValidRouteFile(file));
       return routes;
@@ -34,48 +71,132 @@ export class RouteScanner {
     }
   }
 
+  /**
+   * Lee los patrones de exclusión del archivo .routeignore del directorio de rutas, si existe
+   */
+  private async loadIgnoreFile(): Promise<string[]> {
+    if (!this.fileSystem.readFile) {
+      return [];
+    }
+    
+    try {
+      const content = await this.fileSystem.readFile(join(this.config.baseDir, ROUTE_IGNORE_FILE));
+      return parseIgnoreFile(content);
+    } catch {
+      return [];
+    }
+  }
+
   /**
    * Convierte metadatos de archivo a información de ruta
    */
   async fileToRouteInfo(metadata: RouteFileMetadata): Promise<RouteInfo> {
-    const routePath = this.getRoutePathFromFile(metadata.relativePath);
-    const routeType = this.determineRouteType(routePath);
+    const routePath = this.applyPrefix(this.getRoutePathFromFile(metadata.relativePath));
+    const routeType = determineRouteType(routePath);
+    this.validateRouteParameters(routePath, metadata.relativePath);
+    
+    const fileMethod = this.getFileMethod(metadata.relativePath);
     
     return {
       pattern: routePath,
       path: routePath,
       type: routeType,
       params: {},
-      parameters: this.getRouteParameters(routePath),
+      parameters: getRouteParameters(routePath),
       filePath: metadata.filePath,
-      method: 'GET' // Por defecto, se puede sobrescribir en el handler
+      method: fileMethod || 'GET', // Por defecto, se puede sobrescribir en el handler
+      fileMethod,
+      groups: this.getRouteGroups(metadata.relativePath),
+      root: this.config.baseDir
     };
   }
 
+  /**
+   * Monta una ruta bajo el prefijo del directorio raíz (ej: /invoices → /billing/invoices)
+   */
+  private applyPrefix(routePath: string): string {
+    const prefix = (this.config.prefix || '').replace(/\/+$/, '');
+    if (!prefix) {
+      return routePath;
+    }
+    
+    const normalizedPrefix = prefix.startsWith('/') ? prefix : '/' + prefix;
+    return routePath === '/' ? normalizedPrefix : normalizedPrefix + routePath;
+  }
+
+  /**
+   * Valida los tipos ([id:int]) y restricciones ([code(\d{3})]) declarados en los parámetros
+   */
+  private validateRouteParameters(routePath: string, relativePath: string): void {
+    for (const token of findParameterTokens(routePath)) {
+      if (token.type && !PARAMETER_TYPES[token.type]) {
+        throw new Error(
+          `Unknown parameter type '${token.type}' in route file ${relativePath} ` +
+          `(supported: ${Object.keys(PARAMETER_TYPES).join(', ')})`
+        );
+      }
+      
+      if (token.constraint !== undefined) {
+        try {
+          new RegExp(token.constraint);
+          // path-to-regexp no admite grupos de captura dentro de la restricción
+          pathToRegexp(`/:${token.name}(${token.constraint})`);
+        } catch (error) {
+          const reason = error instanceof Error ? error.message : String(error);
+          throw new Error(
+            `Invalid constraint '(${token.constraint})' for parameter '${token.name}' ` +
+            `in route file ${relativePath}: ${reason}`
+          );
+        }
+      }
+    }
+  }
+
   /**
    * Escanea recursivamente un directorio
    */
-  private async scanDirectory(dirPath: string): Promise<RouteFileMetadata[]> {
+  private async scanDirectory(
+    dirPath: string,
+    ancestorRealPaths: Set<string> = new Set()
+  ): Promise<RouteFileMetadata[]> {
     const files: RouteFileMetadata[] = [];
     
     try {
-      const entries = await fs.readdir(dirPath, { withFileTypes: true });
+      // Al seguir enlaces, una carpeta cuya ruta real ya está en la rama actual forma un ciclo
+      if (this.config.followSymlinks) {
+        const realDirPath = await this.limit(() => this.getRealPath(dirPath));
+        if (ancestorRealPaths.has(realDirPath)) {
+          console.warn(`Warning: Skipping symlink cycle at ${dirPath} (${realDirPath})`);
+          return files;
+        }
+        ancestorRealPaths = new Set(ancestorRealPaths).add(realDirPath);
+      }
+      
+      const entries = await this.limit(() => this.fileSystem.readdir(dirPath));
       
-      for (const entry of entries) {
+      // Ordenar por nombre para que el resultado no dependa del orden de readdir
+      entries.sort((a, b) => compareStrings(a.name, b.name));
+      
+      // Las entradas se procesan en paralelo (la E/S pasa por el límite de concurrencia)
+      const entryFiles = await Promise.all(entries.map(async (entry): Promise<RouteFileMetadata[]> => {
         const fullPath = join(dirPath, entry.name);
+        const { isDirectory, isFile } = await this.getEntryKind(entry, fullPath);
         
-        if (entry.isDirectory()) {
+        if (isDirectory) {
           // Recursivamente escanear subdirectorios
-          const subFiles = await this.scanDirectory(fullPath);
-          files.push(...subFiles);
-        } else if (entry.isFile()) {
+          return this.scanDirectory(fullPath, ancestorRealPaths);
+        }
+        
+        if (isFile) {
           // Procesar archivo
           const metadata = await this.getFileMetadata(fullPath);
-          if (metadata) {
-            files.push(metadata);
-          }
+          return metadata ? [metadata] : [];
         }
-      }
+        
+        return [];
+      }));
+      
+      files.push(...entryFiles.flat());
     } catch (error) {
       console.warn(`Warning: Could not scan directory ${dirPath}: ${error}`);
     }
@@ -83,17 +204,48 @@ export class RouteScanner {
     return files;
   }
 
+  /**
+   * Determina si una entrada es carpeta o archivo; los enlaces simbólicos solo se
+   * resuelven con followSymlinks (los enlaces rotos se omiten)
+   */
+  private async getEntryKind(
+    entry: RouteFileSystemEntry,
+    fullPath: string
+  ): Promise<{ isDirectory: boolean; isFile: boolean }> {
+    if (!entry.isSymbolicLink || !this.config.followSymlinks) {
+      return { isDirectory: entry.isDirectory, isFile: entry.isFile };
+    }
+    
+    try {
+      const stats = await this.limit(() => this.fileSystem.stat(fullPath));
+      return { isDirectory: stats.isDirectory, isFile: stats.isFile };
+    } catch (error) {
+      console.warn(`Warning: Could not resolve symlink ${fullPath}: ${error}`);
+      return { isDirectory: false, isFile: false };
+    }
+  }
+
+  /**
+   * Resuelve los enlaces simbólicos de una ruta, si el sistema de archivos lo permite
+   */
+  private async getRealPath(filePath: string): Promise<string> {
+    return this.fileSystem.realpath ? this.fileSystem.realpath(filePath) : filePath;
+  }
+
   /**
    * Obtiene metadatos de un archivo
    */
   private async getFileMetadata(filePath: string): Promise<RouteFileMetadata | null> {
     try {
-      const stats = await fs.stat(filePath);
+      const [stats, realPath] = await this.limit(() =>
+        Promise.all([this.fileSystem.stat(filePath), this.getRealPath(filePath)])
+      );
       const relativePath = relative(this.config.baseDir, filePath);
       
       return {
         filePath,
-        relativePath: relativePath.replace(/\\/g, '/'), // Normalizar separadores
+        realPath,
+        relativePath: relativePath.split(sep).join('/'), // Normalizar separadores
         fileName: basename(filePath, extname(filePath)),
         directory: dirname(relativePath),
         lastModified: stats.mtime,
@@ -111,42 +263,64 @@ export class RouteScanner {
   private isValidRouteFile(metadata: RouteFileMetadata): boolean {
     const extension = extname(metadata.filePath);
     
-    // Verificar extensión
-    if (!this.config.extensions.includes(extension)) {
+    // Verificar extensión y descartar archivos de test y archivos o carpetas privados (_archivo.ts, _carpeta/)
+    if (!isValidRouteFile(metadata.relativePath, this.config.extensions)) {
       return false;
     }
     
-    // Verificar patrones de ignorar
-    for (const pattern of this.config.ignore) {
-      if (this.matchesPattern(metadata.fileName + extension, pattern) ||
-          this.matchesPattern(metadata.relativePath, pattern)) {
-        return false;
-      }
+    // Si se configuró un patrón de archivos de ruta, solo cuentan los que lo cumplen
+    if (this.config.routeFilePattern &&
+        !this.getRouteFilePatternRegExp().test(metadata.fileName + extension)) {
+      return false;
     }
     
-    return true;
+    // Verificar patrones de ignorar (configuración y .routeignore, en ese orden)
+    return !isExcludedByGlobs(metadata.relativePath, [...this.config.ignore, ...this.ignoreFilePatterns]);
   }
 
   /**
-   * Verifica si un nombre coincide con un patrón
+   * Verifica si una ruta relativa coincide con un patrón glob
    */
-  private matchesPattern(name: string, pattern: string): boolean {
-    if (pattern.includes('*')) {
-      const regex = new RegExp(pattern.replace(/\*/g, '.*'));
-      return regex.test(name);
-    }
-    return name === pattern;
+  matchesPattern(relativePath: string, pattern: string): boolean {
+    return matchesGlob(relativePath, pattern);
+  }
+
+  /**
+   * Convierte el patrón de archivos de ruta (ej: *.route.ts) en una expresión regular
+   * anclada que captura el nombre de la ruta en lugar del primer comodín
+   */
+  private getRouteFilePatternRegExp(): RegExp {
+    const [name, ...rest] = (this.config.routeFilePattern || '*')
+      .split('*')
+      .map(part => part.replace(/[.+?^${}()|[\]\\]/g, '\\$&'));
+    const source = rest.length > 0 ? `${name}(.+?)${rest.join('.*')}` : name;
+    return new RegExp(`^${source}$`);
+  }
+
+  /**
+   * Obtiene el método HTTP declarado en el nombre del archivo (ej: profile.get.ts → GET)
+   */
+  getFileMethod(relativePath: string): string | undefined {
+    const match = this.removeFileSuffix(relativePath).match(this.methodSuffixPattern);
+    return match ? match[1].toUpperCase() : undefined;
   }
 
   /**
    * Convierte la ruta del archivo a ruta de API
    */
   private getRoutePathFromFile(relativePath: string): string {
-    // Remover extensión
-    let routePath = relativePath.replace(/\.(ts|js)$/, '');
+    // Remover extensión y sufijo de método (ej: profile.get.ts → profile)
+    let routePath = this.removeFileSuffix(relativePath).replace(this.methodSuffixPattern, '');
     
-    // Convertir separadores de Windows a URL
-    routePath = routePath.replace(/\\/g, '/');
+    // Los grupos (carpetas entre paréntesis) no forman parte de la URL
+    const segments = routePath.split('/').filter(segment => !this.isRouteGroup(segment));
+    routePath = segments.join('/');
+    
+    // Los archivos index representan la ruta de su directorio padre
+    if (segments[segments.length - 1] === this.config.indexFileName) {
+      segments.pop();
+      routePath = segments.join('/');
+    }
     
     // Agregar slash inicial si no existe
     if (!routePath.startsWith('/')) {
@@ -157,36 +331,57 @@ export class RouteScanner {
   }
 
   /**
-   * Determina el tipo de ruta basado en el patrón
+   * Remueve la extensión (o el sufijo del patrón de archivos de ruta) de la ruta relativa
    */
-  private determineRouteType(routePath: string): RouteType {
-    // Ruta con segmentos variables: [...segmentName]
-    if (routePath.includes('[...')) {
-      return 'variableSegments';
-    }
+  private removeFileSuffix(relativePath: string): string {
+    // Convertir separadores de Windows a URL
+    let routePath = relativePath.split(sep).join('/');
     
-    // Ruta con parámetros: [param]
-    if (routePath.includes('[') && routePath.includes(']')) {
-      // Contar parámetros
-      const paramCount = (routePath.match(/\[[^\]]+\]/g) || []).length;
-      return paramCount === 1 ? 'singleParam' : 'nested';
+    // Remover el sufijo del patrón de archivos de ruta (ej: users.route.ts → users)
+    if (this.config.routeFilePattern) {
+      const segments = routePath.split('/');
+      const match = this.getRouteFilePatternRegExp().exec(segments[segments.length - 1]);
+      if (match && match[1] !== undefined) {
+        segments[segments.length - 1] = match[1];
+        routePath = segments.join('/');
+      }
     }
     
-    // Ruta simple
-    return 'simple';
+    // Remover extensión (la más larga que coincida: .mts antes que .ts)
+    const extension = [...this.config.extensions]
+      .sort((a, b) => b.length - a.length)
+      .find(candidate => routePath.endsWith(candidate));
+    return extension ? routePath.slice(0, -extension.length) : routePath;
   }
 
   /**
-   * Obtiene todos los parámetros de una ruta
+   * Obtiene los grupos de ruta (carpetas entre paréntesis) de un archivo
    */
-  getRouteParameters(routePath: string): string[] {
-    const matches = routePath.match(/\[([^\]]+)\]/g);
-    if (!matches) return [];
-    
-    return matches.map(match => {
-      // Remover corchetes y puntos suspensivos
-      return match.replace(/[\[\]]/g, '').replace(/^\.\.\./g, '');
-    });
+  getRouteGroups(relativePath: string): string[] {
+    return relativePath
+      .split(sep)
+      .join('/')
+      .split('/')
+      .slice(0, -1)
+      .filter(segment => this.isRouteGroup(segment))
+      .map(segment => segment.slice(1, -1));
+  }
+
+  /**
+   * Verifica si un segmento es un grupo de rutas: (group)
+   */
+  private isRouteGroup(segment: string): boolean {
+    return segment.startsWith('(') && segment.endsWith(')');
+  }
+
+  /**
+   * Rutas de archivo legibles para los mensajes de conflicto (ver findRouteConflicts): relativas
+   * a su directorio raíz, o al directorio de trabajo si los archivos provienen de raíces distintas
+   */
+  describeRouteFiles(routes: RouteInfo[]): string[] {
+    const roots = new Set(routes.map(route => route.root || this.config.baseDir));
+    const baseDir = roots.size === 1 ? [...roots][0] : process.cwd();
+    return routes.map(route => relative(baseDir, route.filePath).split(sep).join('/'));
   }
 
   /**
@@ -200,6 +395,6 @@ export class RouteScanner {
    * Extrae parámetros de una ruta (alias de getRouteParameters)
    */
   extractParameters(routePath: string): string[] {
-    return this.getRouteParameters(routePath);
+    return getRouteParameters(routePath);
   }
-}
\ No newline at end of file
+}
@@ -0,0 +1,1110 @@
+import { Hono, Context, Next, ExecutionContext } from 'hono';
+import { ParameterExtractor, ParameterMatcher } from './parameter-extractor';
+import { ErrorHandler } from './error-handler';
+import { mapWithConcurrency, DEFAULT_CONCURRENCY } from './concurrency';
+import { isMalformedUrlPath, normalizeUrlPath, decodeUrlPath } from './url-normalization';
+import {
+  findRouteConflicts,
+  findAmbiguousRoutes,
+  sortRoutesBySpecificity,
+  determineRouteType,
+  getRouteParameters,
+  getRouteParameterDetails
+} from './route-analysis';
+import {
+  RouterConfig,
+  RoutesRoot,
+  RegisteredRoute,
+  RouterStats,
+  RouterInitResult,
+  HonoRouter,
+  HTTPMethod,
+  RouteParams,
+  StaticRouteTable,
+  RouteFileSystem
+} from '../types';
+import { RouteInfo, RouteConflict, RouteParamConfig } from '../types/route';
+import { ExtendedContext, HandlerConfig, RouteMiddleware } from '../types/handler';
+
+/**
+ * Handler de un método HTTP exportado por un archivo de ruta
+ */
+type RouteMethodHandler = (c: ExtendedContext, next: Next) => Promise<Response> | Response;
+
+/**
+ * Interfaz para handlers exportados por archivos de ruta
+ */
+export interface RouteFileHandler {
+  get?: RouteMethodHandler;
+  post?: RouteMethodHandler;
+  put?: RouteMethodHandler;
+  delete?: RouteMethodHandler;
+  patch?: RouteMethodHandler;
+  head?: RouteMethodHandler;
+  options?: RouteMethodHandler;
+  /** Atiende cualquier método que la ruta no defina explícitamente */
+  all?: RouteMethodHandler;
+}
+
+/**
+ * Handlers de una ruta por método en minúsculas, incluidos los métodos de extensión
+ * configurados en RouterConfig.methods (ej: propfind)
+ */
+type RouteMethodHandlers = { [method: string]: RouteMethodHandler | undefined };
+
+/**
+ * Handlers de un archivo de ruta junto con su middleware y validación (ver HandlerConfig)
+ */
+interface RouteDefinition {
+  /** Handler de cada método (get, post, ..., all) */
+  handlers: RouteMethodHandlers;
+  /** Middleware de cada método (GET, POST, ...) que se ejecuta en orden antes del handler */
+  middleware: { [method: string]: RouteMiddleware[] };
+  /** Validación de los parámetros de la ruta */
+  validation?: RouteParamConfig;
+  /** Parámetros declarados por el handler (ver defineRoute) */
+  params?: readonly string[];
+  /** Métodos indicados en HandlerConfig.methods */
+  methods?: readonly HTTPMethod[];
+}
+
+/**
+ * Índice para buscar rutas sin distinguir mayúsculas (caseSensitive: false)
+ */
+interface RouteCaseIndex {
+  /** Rutas sin parámetros por su ruta en minúsculas */
+  staticPaths: Map<string, string>;
+  /** Funciones que reescriben una URL con las mayúsculas de cada ruta con parámetros, en orden */
+  dynamicRoutes: ((urlPath: string) => string | null)[];
+}
+
+/**
+ * Métodos HTTP estándar que pueden exportar los archivos de ruta
+ */
+const STANDARD_HTTP_METHODS: HTTPMethod[] = ['GET', 'POST', 'PUT', 'DELETE', 'PATCH', 'HEAD', 'OPTIONS'];
+
+/**
+ * Exports con nombre distinto al método ('delete' es una palabra reservada y no puede
+ * usarse como nombre de función, por eso las rutas exportan 'del')
+ */
+const METHOD_EXPORT_ALIASES: { [exportName: string]: string } = {
+  del: 'delete'
+};
+
+/**
+ * Router que registra las rutas de una tabla estática (ver writeStaticRoutes) o agregadas
+ * con addRoute/registerRoute. No importa módulos de Node.js, por lo que funciona en entornos
+ * sin sistema de archivos; Router lo extiende para escanear directorios.
+ */
+export class StaticRouter implements HonoRouter {
+  private app: Hono;
+  public config: RouterConfig;
+  private parameterExtractor: ParameterExtractor;
+  private errorHandler: ErrorHandler;
+  protected registeredRoutes: RegisteredRoute[] = [];
+  protected fileSystem?: RouteFileSystem;
+  protected stats: RouterStats;
+  private caseIndex: RouteCaseIndex | null = null;
+  /** Función que extrae los parámetros de cada ruta registrada, por su ruta (ver getRouteMatcher) */
+  private routeMatchers = new Map<string, ParameterMatcher>();
+
+  constructor(config: RouterConfig) {
+    const defaultConfig = {
+      routesDirectory: './src/routes',
+      enableLogging: true
+    };
+    
+    this.config = {
+      ...defaultConfig,
+      ...config
+    };
+
+    // Solo se usa para cargar los archivos de registerRoute() (las tablas ya traen sus módulos)
+    this.fileSystem = config.fileSystem;
+    this.parameterExtractor = new ParameterExtractor();
+    this.errorHandler = new ErrorHandler(this.config.errorHandling);
+    this.app = this.createApp();
+    
+    this.stats = {
+      totalRoutes: 0,
+      totalFiles: 0,
+      routesByMethod: {},
+      routesByType: {
+        simple: 0,
+        singleParam: 0,
+        variableSegments: 0,
+        optionalVariableSegments: 0,
+        nested: 0
+      },
+      lastScanTime: null,
+      processingTime: 0,
+      timings: { scan: 0, import: 0, register: 0 }
+    };
+  }
+
+  /**
+   * Crea la instancia de Hono: las rutas se buscan con la URL canónica (ver getRoutingPath)
+   * y las URLs mal codificadas o no canónicas se atienden antes que cualquier ruta
+   */
+  private createApp(): Hono {
+    const app = new Hono({ getPath: request => this.getRoutingPath(request) });
+    
+    app.use('*', async (c, next) => {
+      const { pathname, search } = new URL(c.req.url);
+      
+      // Una codificación porcentual inválida no puede decodificarse para extraer parámetros
+      if (isMalformedUrlPath(pathname)) {
+        return this.errorHandler.handleMalformedUrl(c, pathname);
+      }
+      
+      // Con normalize.redirect, las URLs no canónicas se redirigen en lugar de atenderse
+      const { normalize } = this.config;
+      if (typeof normalize === 'object' && normalize.redirect) {
+        const canonicalPath = this.getCanonicalPath(pathname);
+        if (canonicalPath !== pathname) {
+          return redirectToPath(c, canonicalPath + search);
+        }
+      }
+      
+      // Montado en otra aplicación, las URLs no canónicas se atienden con la de este router
+      if (this.isMountedRoutingMismatch(c)) {
+        return this.app.fetch(c.req.raw, c.env, getExecutionContext(c));
+      }
+      
+      await next();
+    });
+    
+    return app;
+  }
+
+  /**
+   * Obtiene la ruta con la que Hono busca la ruta registrada: la URL canónica decodificada
+   * y sin barra final (la política trailingSlash se aplica en cada ruta)
+   */
+  private getRoutingPath(request: Request): string {
+    const routingPath = decodeUrlPath(this.getCanonicalPath(new URL(request.url).pathname));
+    return routingPath.length > 1 && routingPath.endsWith('/') ? routingPath.slice(0, -1) : routingPath;
+  }
+
+  /**
+   * Indica si la petición llega a través de otra aplicación Hono (ej: setupRoutes monta el
+   * router con app.route) con una ruta distinta de la canónica que corresponde a una ruta
+   * registrada. La aplicación padre busca las rutas con su propio getPath, por lo que sin
+   * volver a despachar la petición se perderían normalize, caseSensitive y trailingSlash.
+   */
+  private isMountedRoutingMismatch(c: Context): boolean {
+    const routingPath = this.getRoutingPath(c.req.raw);
+    if (c.req.path === routingPath) {
+      return false;
+    }
+    
+    // En modo estricto la URL con barra final no corresponde a ninguna ruta del router
+    const { pathname } = new URL(c.req.url);
+    const hasTrailingSlash = pathname.length > 1 && pathname.endsWith('/');
+    if (hasTrailingSlash && (this.config.trailingSlash || 'strict') === 'strict') {
+      return false;
+    }
+    
+    return this.registeredRoutes.some(route => this.getRouteMatcher(route.path)(routingPath) !== null);
+  }
+
+  /**
+   * Obtiene la URL canónica según las opciones normalize y caseSensitive. Sin distinguir
+   * mayúsculas, los segmentos estáticos toman las de la primera ruta que coincida.
+   */
+  private getCanonicalPath(pathname: string): string {
+    const { normalize, caseSensitive = true } = this.config;
+    let canonicalPath = normalize
+      ? normalizeUrlPath(pathname, normalize === true ? {} : normalize)
+      : pathname;
+    
+    if (!caseSensitive) {
+      const hasTrailingSlash = canonicalPath.length > 1 && canonicalPath.endsWith('/');
+      const urlPath = hasTrailingSlash ? canonicalPath.slice(0, -1) : canonicalPath;
+      const casedPath = this.findRouteCase(urlPath);
+      if (casedPath !== null) {
+        canonicalPath = hasTrailingSlash ? casedPath + '/' : casedPath;
+      }
+    }
+    
+    return canonicalPath;
+  }
+
+  /**
+   * Obtiene la URL con las mayúsculas de la primera ruta que coincide ignorándolas. Una ruta
+   * sin parámetros que coincide completa siempre es la más específica, por eso se busca primero.
+   */
+  private findRouteCase(urlPath: string): string | null {
+    if (!this.caseIndex) {
+      this.caseIndex = { staticPaths: new Map(), dynamicRoutes: [] };
+      for (const route of this.registeredRoutes) {
+        const lowerPath = route.path.toLowerCase();
+        if (route.parameters.length > 0) {
+          this.caseIndex.dynamicRoutes.push(this.parameterExtractor.createPatternCaseFunction(route.path));
+        } else if (!this.caseIndex.staticPaths.has(lowerPath)) {
+          this.caseIndex.staticPaths.set(lowerPath, route.path);
+        }
+      }
+    }
+    
+    const staticPath = this.caseIndex.staticPaths.get(urlPath.toLowerCase());
+    if (staticPath !== undefined) {
+      return staticPath;
+    }
+    
+    for (const applyRouteCase of this.caseIndex.dynamicRoutes) {
+      const casedPath = applyRouteCase(urlPath);
+      if (casedPath !== null) {
+        return casedPath;
+      }
+    }
+    
+    return null;
+  }
+
+  /**
+   * Inicializa el router y escanea las rutas
+   */
+  async init(): Promise<RouterInitResult> {
+    return this.initialize();
+  }
+
+  /**
+   * Refresca las rutas escaneando nuevamente
+   */
+  async refresh(): Promise<RouterInitResult> {
+    // Limpiar rutas existentes
+    this.registeredRoutes = [];
+    this.caseIndex = null;
+    this.stats.totalRoutes = 0;
+    this.stats.totalFiles = 0;
+    this.stats.routesByMethod = {};
+    this.stats.routesByType = {
+      simple: 0,
+      singleParam: 0,
+      variableSegments: 0,
+      optionalVariableSegments: 0,
+      nested: 0
+    };
+    
+    return this.initialize();
+  }
+
+  /**
+   * Inicializa el router y escanea las rutas
+   */
+  async initialize(): Promise<RouterInitResult> {
+    const startTime = Date.now();
+    let ambiguousRoutes: RouteConflict[] = [];
+    try {
+      this.log('info', 'Initializing router...');
+      
+      const { staticRoutes } = this.config;
+      
+      // Obtener las rutas (de la tabla estática; Router también las escanea o las lee del manifiesto)
+      const scanStart = Date.now();
+      const routeInfos = await this.loadRouteInfos();
+      const totalFiles = routeInfos.length;
+      this.log('info', `Found ${totalFiles} route files`);
+
+      // Verificar que no haya archivos que resuelvan a la misma ruta (también entre directorios)
+      const conflicts = findRouteConflicts(routeInfos, routes => this.describeRouteFiles(routes));
+      if (conflicts.length > 0) {
+        throw new Error(conflicts.map(conflict => conflict.message).join('; '));
+      }
+
+      // Detectar rutas ambiguas; en modo estricto impiden la inicialización
+      ambiguousRoutes = findAmbiguousRoutes(routeInfos, routes => this.describeRouteFiles(routes));
+      for (const conflict of ambiguousRoutes) {
+        this.log('warn', conflict.message);
+      }
+      if (this.config.strictConflicts && ambiguousRoutes.length > 0) {
+        throw new Error(ambiguousRoutes.map(conflict => conflict.message).join('; '));
+      }
+
+      const scanTime = Date.now() - scanStart;
+
+      // Importar los handlers en paralelo (con concurrencia limitada); los de la tabla
+      // estática ya vienen importados
+      const importStart = Date.now();
+      const staticModules = new Map(staticRoutes?.map(entry => [entry.route, entry.module]));
+      const sortedRoutes = sortRoutesBySpecificity(routeInfos);
+      const definitions = await mapWithConcurrency(
+        sortedRoutes,
+        this.config.concurrency ?? DEFAULT_CONCURRENCY,
+        async routeInfo => {
+          const module = staticModules.get(routeInfo);
+          return module
+            ? this.getRouteDefinitionFromModule(module, routeInfo.filePath, routeInfo.fileMethod)
+            : this.loadRouteDefinition(routeInfo.filePath, routeInfo.fileMethod);
+        }
+      );
+      const importTime = Date.now() - importStart;
+
+      // Registrar rutas de la más específica a la menos específica (el orden importa en Hono)
+      const registerStart = Date.now();
+      sortedRoutes.forEach((routeInfo, index) => this.registerLoadedRoute(routeInfo, definitions[index]));
+      const registerTime = Date.now() - registerStart;
+
+      // Registrar middleware de manejo de errores
+      this.app.use('*', this.errorHandler.createErrorMiddleware());
+
+      // Registrar manejador 404
+      this.app.notFound((c) => {
+        return this.errorHandler.handle404(c, c.req.path);
+      });
+
+      // Actualizar estadísticas
+      this.stats.totalFiles = totalFiles;
+      this.stats.processingTime = Date.now() - startTime;
+      this.stats.timings = { scan: scanTime, import: importTime, register: registerTime };
+      this.updateStats();
+
+      this.log('info', `Router initialized with ${this.registeredRoutes.length} routes`);
+
+      return {
+        success: true,
+        routesRegistered: this.registeredRoutes.length,
+        conflicts: ambiguousRoutes,
+        stats: this.stats
+      };
+    } catch (error) {
+      const errorMessage = error instanceof Error ? error.message : 'Unknown error';
+      this.log('error', 'Failed to initialize router', error);
+      return {
+        success: false,
+        error: errorMessage,
+        routesRegistered: 0,
+        conflicts: ambiguousRoutes
+      };
+    }
+  }
+
+  /**
+   * Obtiene la información de las rutas a registrar: las de la tabla estática
+   */
+  protected async loadRouteInfos(): Promise<RouteInfo[]> {
+    return (this.config.staticRoutes || []).map(entry => entry.route);
+  }
+
+  /**
+   * Rutas de archivo con las que se muestran las rutas en los mensajes de conflicto
+   */
+  protected describeRouteFiles(routeInfos: RouteInfo[]): string[] {
+    return routeInfos.map(routeInfo => routeInfo.filePath);
+  }
+
+  /**
+   * Crea un router a partir de una tabla de rutas estática generada con writeStaticRoutes().
+   * No escanea directorios ni importa archivos, por lo que funciona sin sistema de archivos.
+   */
+  static fromStaticRoutes(
+    staticRoutes: StaticRouteTable,
+    config: Partial<RouterConfig> = {}
+  ): StaticRouter {
+    return new StaticRouter({ ...config, routesDirectory: '', staticRoutes });
+  }
+
+  /**
+   * Registra una ruta individual, con el handler de su archivo o con la configuración indicada
+   */
+  public async registerRoute(routeInfo: RouteInfo, handlerConfig?: HandlerConfig<any>): Promise<void> {
+    const definition = handlerConfig
+      ? this.getRouteDefinitionFromConfig(handlerConfig, routeInfo.fileMethod)
+      : await this.loadRouteDefinition(routeInfo.filePath, routeInfo.fileMethod);
+    this.registerLoadedRoute(routeInfo, definition);
+  }
+
+  /**
+   * Registra una ruta cuyo handler ya fue cargado
+   */
+  private registerLoadedRoute(routeInfo: RouteInfo, definition: RouteDefinition | null): void {
+    if (!definition) {
+      this.log('warn', `No handler found for route: ${routeInfo.path}`);
+      return;
+    }
+
+    // Los métodos de HandlerConfig deben ser estándar o estar configurados en RouterConfig.methods
+    if (definition.methods) {
+      this.checkHandlerMethods(routeInfo, definition.methods);
+    }
+
+    // Determinar métodos HTTP soportados (un archivo con sufijo solo registra su método)
+    const methods = this.getSupportedMethods(definition.handlers)
+      .filter(method => !routeInfo.fileMethod || method === routeInfo.fileMethod);
+
+    if (methods.length === 0) {
+      const methodName = routeInfo.fileMethod ? `${routeInfo.fileMethod} ` : '';
+      this.log('warn', `No ${methodName}handler found in file: ${routeInfo.filePath}`);
+      return;
+    }
+
+    // Los parámetros que declara el handler deben ser los que define la ruta del archivo
+    if (definition.params) {
+      this.checkDeclaredParams(routeInfo, definition.params);
+    }
+    if (definition.validation) {
+      this.checkValidationParams(routeInfo, definition.validation);
+    }
+
+    // Los archivos de una misma ruta se combinan, pero un método solo puede definirse una vez
+    const existingRoute = this.registeredRoutes.find(route => route.path === routeInfo.path);
+    const duplicatedMethod = methods.find(method => existingRoute?.methods.includes(method));
+    if (existingRoute && duplicatedMethod) {
+      throw new Error(
+        `Method conflict: ${duplicatedMethod} ${routeInfo.path} is defined in both ` +
+        `${existingRoute.methodFiles[duplicatedMethod]} and ${routeInfo.filePath}`
+      );
+    }
+
+    try {
+      // Los métodos de la ruta registrada, que crecen al combinar archivos (ver registerRouteMethod)
+      const routeMethods = existingRoute ? existingRoute.methods : methods;
+      for (const method of methods) {
+        this.registerRouteMethod(routeInfo, method, definition, routeMethods);
+      }
+
+      const methodFiles = Object.fromEntries(methods.map(method => [method, routeInfo.filePath]));
+      const middleware = Object.fromEntries(methods.map(method => [
+        method,
+        (definition.middleware[method] || []).map(getMiddlewareName)
+      ]));
+
+      if (existingRoute) {
+        // Combinar con la ruta ya registrada (ej: profile.get.ts + profile.patch.ts)
+        existingRoute.methods.push(...methods);
+        Object.assign(existingRoute.methodFiles, methodFiles);
+        Object.assign(existingRoute.middleware, middleware);
+        if (!routeInfo.fileMethod) {
+          existingRoute.filePath = routeInfo.filePath;
+        }
+      } else {
+        // Agregar a rutas registradas
+        this.caseIndex = null;
+        this.registeredRoutes.push({
+          path: routeInfo.path,
+          filePath: routeInfo.filePath,
+          type: routeInfo.type,
+          methods,
+          methodFiles,
+          middleware,
+          parameters: getRouteParameterDetails(routeInfo.path),
+          groups: routeInfo.groups || [],
+          root: routeInfo.root || getRoutesRoots(this.config)[0].dir
+        });
+      }
+      
+      this.log('info', `Registered route: ${methods.join(', ')} ${routeInfo.path}`);
+    } catch (error) {
+      this.log('error', `Failed to register route: ${routeInfo.path}`, error);
+    }
+  }
+
+  /**
+   * Verifica que los parámetros declarados por el handler (ej: ['userId:int', '...path', 'year?'])
+   * coincidan en nombre, tipo, segmentos variables y opcionalidad con los de la ruta del archivo.
+   * Los segmentos variables opcionales ([[...slug]]) se declaran sin '?' porque siempre son un array.
+   */
+  private checkDeclaredParams(routeInfo: RouteInfo, declaredParams: readonly string[]): void {
+    const routeParams = getRouteParameterDetails(routeInfo.path)
+      .map(({ name, variable, optional, type }) =>
+        `${variable ? '...' : ''}${name}${type ? `:${type}` : ''}${optional && !variable ? '?' : ''}`);
+    const missing = routeParams.filter(param => !declaredParams.includes(param));
+    const unknown = declaredParams.filter(param => !routeParams.includes(param));
+    
+    if (missing.length > 0 || unknown.length > 0) {
+      throw new Error(
+        `Route parameter mismatch in ${routeInfo.filePath}: the handler declares ` +
+        `[${declaredParams.join(', ')}] but ${routeInfo.path} defines [${routeParams.join(', ')}]`
+      );
+    }
+  }
+
+  /**
+   * Verifica que los métodos del handler (HandlerConfig.methods) sean métodos estándar o
+   * de extensión configurados en RouterConfig.methods (ej: PROPFIND)
+   */
+  private checkHandlerMethods(routeInfo: RouteInfo, handlerMethods: readonly HTTPMethod[]): void {
+    const httpMethods = this.getHttpMethods();
+    const unknown = handlerMethods.filter(method => !httpMethods.includes(method.toUpperCase()));
+    
+    if (unknown.length > 0) {
+      throw new Error(
+        `Unknown HTTP method ${unknown.map(method => `'${method}'`).join(', ')} in ${routeInfo.filePath}: ` +
+        `add it to the router's methods option to register it`
+      );
+    }
+  }
+
+  /**
+   * Verifica que la validación del handler (HandlerConfig.validation) solo incluya
+   * parámetros que define la ruta del archivo
+   */
+  private checkValidationParams(routeInfo: RouteInfo, validation: RouteParamConfig): void {
+    const routeParams = getRouteParameterDetails(routeInfo.path).map(({ name }) => name);
+    const unknown = Object.keys(validation).filter(param => !routeParams.includes(param));
+    
+    if (unknown.length > 0) {
+      throw new Error(
+        `Route validation mismatch in ${routeInfo.filePath}: the handler validates ` +
+        `[${unknown.join(', ')}] but ${routeInfo.path} defines [${routeParams.join(', ')}]`
+      );
+    }
+  }
+
+  /**
+   * Registra un método específico para una ruta. routeMethods son los métodos de la ruta
+   * registrada; se comparte la referencia para que el handler 'all' vea también los métodos
+   * que agreguen después otros archivos de la misma ruta (ej: profile.ts + profile.get.ts)
+   */
+  private registerRouteMethod(
+    routeInfo: RouteInfo,
+    method: HTTPMethod,
+    definition: RouteDefinition,
+    routeMethods: readonly HTTPMethod[]
+  ): void {
+    const routePaths = this.convertToHonoPaths(routeInfo.path);
+    const matchParameters = this.getRouteMatcher(routeInfo.path);
+    
+    const routeHandler = async (c: Context, next: Next) => {
+      try {
+        // La barra final no forma parte de la ruta (c.req.path no la incluye, ver getRoutingPath);
+        // la política trailingSlash decide qué hacer con ella
+        const { pathname } = new URL(c.req.url);
+        const hasTrailingSlash = pathname.length > 1 && pathname.endsWith('/');
+        const requestPath = c.req.path;
+
+        // Si la URL no cumple las restricciones del patrón (ej: [id:int]), continuar con la siguiente ruta
+        const params = matchParameters(requestPath);
+        if (!params) {
+          await next();
+          return;
+        }
+
+        // El handler 'all' solo atiende los métodos que la ruta no define explícitamente
+        if (method === 'ALL' && routeMethods.includes(c.req.method)) {
+          await next();
+          return;
+        }
+
+        // En modo estricto (por defecto) solo la URL sin barra final coincide con la ruta
+        const { trailingSlash = 'strict' } = this.config;
+        if (trailingSlash === 'strict' && hasTrailingSlash) {
+          await next();
+          return;
+        }
+
+        // En los modos de redirección, responder con 308 a la URL canónica
+        const redirect = this.getTrailingSlashRedirect(c, hasTrailingSlash);
+        if (redirect) {
+          return redirect;
+        }
+
+        // Validar los parámetros según la configuración del handler (HandlerConfig.validation)
+        if (definition.validation && this.config.enableParameterValidation !== false) {
+          const errors = this.parameterExtractor.validateParameters(params as RouteParams, definition.validation);
+          if (errors.length > 0) {
+            return this.errorHandler.handleValidationErrors(c, errors, c.req.path);
+          }
+        }
+
+        // Crear contexto extendido
+        // (los parámetros tipados ya vienen convertidos; su tipo lo declara cada handler)
+        const extendedContext = c as ExtendedContext;
+        extendedContext.routeParams = params as RouteParams;
+        extendedContext.params = params as RouteParams;
+
+        // Ejecutar el middleware de la ruta y luego el handler
+        const methodHandler = definition.handlers[method.toLowerCase()];
+        if (typeof methodHandler === 'function') {
+          const middleware = definition.middleware[method] || [];
+          return await runRouteChain(extendedContext, [...middleware, methodHandler], next);
+        }
+
+        // Si no hay handler para este método
+        const allowedMethods = this.getSupportedMethods(definition.handlers);
+        return this.errorHandler.handleMethodNotAllowed(
+          c,
+          c.req.path,
+          allowedMethods
+        );
+      } catch (error) {
+        return this.errorHandler.handleInternalError(
+          c,
+          error instanceof Error ? error : new Error('Unknown error'),
+          c.req.path
+        );
+      }
+    };
+    
+    for (const routePath of routePaths) {
+      this.app.on(method, routePath, routeHandler);
+    }
+  }
+
+  /**
+   * Obtiene la redirección 308 a la URL canónica (con o sin barra final, conservando la
+   * query string) según la política trailingSlash, o undefined si la URL ya es canónica
+   */
+  private getTrailingSlashRedirect(c: Context, hasTrailingSlash: boolean): Response | undefined {
+    const url = new URL(c.req.url);
+    const pathname = this.getCanonicalPath(url.pathname);
+    const { search } = url;
+    
+    if (this.config.trailingSlash === 'redirect-remove' && hasTrailingSlash) {
+      return redirectToPath(c, pathname.slice(0, -1) + search);
+    }
+    
+    if (this.config.trailingSlash === 'redirect-add' && !hasTrailingSlash && pathname !== '/') {
+      return redirectToPath(c, pathname + '/' + search);
+    }
+    
+    return undefined;
+  }
+
+  /**
+   * Carga el handler de una ruta desde un archivo
+   */
+  private async loadRouteDefinition(filePath: string, fileMethod?: string): Promise<RouteDefinition | null> {
+    try {
+      if (!this.fileSystem) {
+        this.log('warn', `No file system to load handler from: ${filePath}`);
+        return null;
+      }
+      if (!this.fileSystem.exists(filePath)) {
+        this.log('warn', `File does not exist: ${filePath}`);
+        return null;
+      }
+
+      this.log('info', `Loading handler from: ${filePath}`);
+      
+      // Importar el módulo a través del sistema de archivos (import dinámico en Node.js)
+      const module = await this.fileSystem.import(filePath);
+      
+      return this.getRouteDefinitionFromModule(module, filePath, fileMethod);
+    } catch (error) {
+      this.log('error', `Failed to load handler from: ${filePath}`, error);
+      return null;
+    }
+  }
+
+  /**
+   * Obtiene el handler de un módulo de ruta ya importado
+   */
+  private getRouteDefinitionFromModule(
+    module: Record<string, any>,
+    filePath: string,
+    fileMethod?: string
+  ): RouteDefinition | null {
+    this.log('info', `Module loaded, keys: ${Object.keys(module).join(', ')}`);
+    
+    // Buscar el handler (export default, named export, o funciones exportadas directamente)
+    let handler = module.default || module.handler;
+    
+    // export default { handler, methods, middleware, validation }
+    if (isHandlerConfig(handler)) {
+      const definition = this.getRouteDefinitionFromConfig(handler, fileMethod);
+      return this.addExportedMiddleware(definition, module, filePath);
+    }
+    
+    // Los archivos con sufijo de método pueden exportar directamente la función
+    if (fileMethod && typeof handler === 'function') {
+      handler = { [fileMethod.toLowerCase()]: handler };
+    }
+    
+    // Si no hay handler, crear uno a partir de las funciones exportadas
+    if (!handler) {
+      handler = {};
+      const exportNames = [
+        ...this.getHttpMethods().map(method => method.toLowerCase()),
+        ...Object.keys(METHOD_EXPORT_ALIASES)
+      ];
+      
+      for (const exportName of exportNames) {
+        if (typeof module[exportName] === 'function') {
+          handler[exportName] = module[exportName];
+        }
+      }
+      
+      // Si no se encontraron métodos HTTP, no es un handler válido
+      if (Object.keys(handler).length === 0) {
+        this.log('warn', `No HTTP methods found in file: ${filePath}`);
+        return null;
+      }
+    }
+    
+    if (!handler || typeof handler !== 'object') {
+      this.log('warn', `Invalid handler in file: ${filePath}`);
+      return null;
+    }
+
+    // Los alias (ej: del) se registran con el método que representan, salvo que ya esté definido
+    const aliasedHandlers = Object.fromEntries(
+      Object.entries(METHOD_EXPORT_ALIASES)
+        .filter(([alias, method]) => typeof handler[alias] === 'function' && typeof handler[method] !== 'function')
+        .map(([alias, method]) => [method, handler[alias]])
+    );
+
+    const definition: RouteDefinition = { handlers: { ...handler, ...aliasedHandlers }, middleware: {} };
+    return this.addExportedMiddleware(definition, module, filePath);
+  }
+
+  /**
+   * Agrega a la definición el middleware exportado por el archivo (export const middleware),
+   * que se ejecuta antes que el de HandlerConfig: un array se aplica a todos los métodos y
+   * un objeto ({ post: [...] }) solo a los indicados
+   */
+  private addExportedMiddleware(
+    definition: RouteDefinition,
+    module: Record<string, any>,
+    filePath: string
+  ): RouteDefinition {
+    const exported = module.middleware;
+    if (exported === undefined) {
+      return definition;
+    }
+    
+    const methods = this.getSupportedMethods(definition.handlers);
+    let exportedMiddleware: { [method: string]: RouteMiddleware[] } = {};
+    
+    if (isMiddlewareList(exported)) {
+      exportedMiddleware = Object.fromEntries(methods.map(method => [method, exported]));
+    } else if (typeof exported === 'object' && exported !== null) {
+      for (const [key, middleware] of Object.entries(exported)) {
+        const method = (METHOD_EXPORT_ALIASES[key] || key).toUpperCase();
+        if (!isMiddlewareList(middleware)) {
+          this.log('warn', `Invalid ${key} middleware in file: ${filePath}`);
+        } else if (!methods.includes(method)) {
+          this.log('warn', `Middleware for ${method} has no handler in file: ${filePath}`);
+        } else {
+          exportedMiddleware[method] = middleware;
+        }
+      }
+    } else {
+      this.log('warn', `Invalid middleware export in file: ${filePath}`);
+    }
+    
+    const middleware = Object.fromEntries(methods.map(method => [
+      method,
+      [...(exportedMiddleware[method] || []), ...(definition.middleware[method] || [])]
+    ]));
+    
+    return { ...definition, middleware };
+  }
+
+  /**
+   * Obtiene la definición de una ruta a partir de su HandlerConfig: el handler se registra
+   * para cada método indicado (por defecto GET, o el método del sufijo del archivo)
+   */
+  private getRouteDefinitionFromConfig(handlerConfig: HandlerConfig<any>, fileMethod?: string): RouteDefinition {
+    const methods = handlerConfig.methods || [fileMethod || 'GET'];
+    
+    return {
+      handlers: Object.fromEntries(methods.map(method => [method.toLowerCase(), handlerConfig.handler])),
+      middleware: Object.fromEntries(methods.map(method => [method.toUpperCase(), handlerConfig.middleware || []])),
+      validation: handlerConfig.validation as RouteParamConfig | undefined,
+      params: handlerConfig.params,
+      methods: handlerConfig.methods
+    };
+  }
+
+  /**
+   * Obtiene los métodos HTTP soportados por un handler ('ALL' al final, para que se
+   * registre después de los métodos explícitos)
+   */
+  private getSupportedMethods(handler: RouteMethodHandlers): HTTPMethod[] {
+    const methods: HTTPMethod[] = [];
+    
+    for (const method of this.getHttpMethods()) {
+      if (typeof handler[method.toLowerCase()] === 'function') {
+        methods.push(method);
+      }
+    }
+    
+    return methods;
+  }
+
+  /**
+   * Obtiene los métodos que pueden exportar las rutas: los estándar, los de extensión
+   * configurados (ej: PROPFIND) y 'ALL'
+   */
+  private getHttpMethods(): HTTPMethod[] {
+    const extensionMethods = (this.config.methods || []).map(method => method.toUpperCase());
+    return [...new Set([...STANDARD_HTTP_METHODS, ...extensionMethods, 'ALL'])];
+  }
+
+  /**
+   * Obtiene la función que extrae los parámetros de una ruta; se compila una sola vez por
+   * ruta al registrarla, no en cada petición
+   */
+  private getRouteMatcher(routePath: string): ParameterMatcher {
+    let matcher = this.routeMatchers.get(routePath);
+    if (!matcher) {
+      matcher = this.parameterExtractor.createParameterMatcher(routePath);
+      this.routeMatchers.set(routePath, matcher);
+    }
+    return matcher;
+  }
+
+  /**
+   * Convierte una ruta de API a los patrones compatibles con Hono
+   * (varios si la ruta tiene segmentos opcionales)
+   */
+  private convertToHonoPaths(apiPath: string): string[] {
+    // Usar el mismo extractor que para los parámetros para consistencia
+    return this.parameterExtractor.convertToHonoPatterns(apiPath);
+  }
+
+  /**
+   * Actualiza las estadísticas del router
+   */
+  private updateStats(): void {
+    this.stats.totalRoutes = this.registeredRoutes.length;
+    this.stats.lastScanTime = new Date();
+    
+    // Resetear contadores
+    this.stats.routesByMethod = {};
+    this.stats.routesByType = {
+      simple: 0,
+      singleParam: 0,
+      variableSegments: 0,
+      optionalVariableSegments: 0,
+      nested: 0
+    };
+    
+    // Contar por método y tipo
+    for (const route of this.registeredRoutes) {
+      // Contar por método
+      for (const method of route.methods) {
+        this.stats.routesByMethod[method] = (this.stats.routesByMethod[method] || 0) + 1;
+      }
+      
+      // Contar por tipo
+      this.stats.routesByType[route.type]++;
+    }
+  }
+
+  /**
+   * Obtiene la instancia de Hono configurada
+   */
+  getApp(): Hono {
+    return this.app;
+  }
+
+  /**
+   * Obtiene las rutas registradas
+   */
+  getRoutes(): RegisteredRoute[] {
+    return [...this.registeredRoutes];
+  }
+
+  /**
+   * Obtiene las estadísticas del router
+   */
+  getStats(): RouterStats {
+    return { ...this.stats };
+  }
+
+  /**
+   * Obtiene la configuración del router
+   */
+  getConfig(): RouterConfig {
+    return { ...this.config };
+  }
+
+  /**
+   * Reescanea las rutas y actualiza el router
+   */
+  async rescan(): Promise<RouterInitResult> {
+    this.log('info', 'Rescanning routes...');
+    
+    // Limpiar rutas existentes
+    this.registeredRoutes = [];
+    this.caseIndex = null;
+    this.app = this.createApp();
+    
+    // Reinicializar
+    return await this.initialize();
+  }
+
+  /**
+   * Agrega una ruta manualmente
+   */
+  addRoute(
+    routePath: string,
+    handler: RouteFileHandler,
+    methods: HTTPMethod[] = ['GET']
+  ): void {
+    // Las rutas manuales también se montan bajo el prefijo base
+    const path = joinPrefixes(this.config.basePrefix) + (routePath === '/' ? '' : routePath) || '/';
+    const routeInfo: RouteInfo = {
+      pattern: path,
+      path: path,
+      type: determineRouteType(path),
+      params: {},
+      parameters: getRouteParameters(path),
+      filePath: 'manual',
+      method: 'GET'
+    };
+
+    for (const method of methods) {
+      this.registerRouteMethod(routeInfo, method, { handlers: { ...handler }, middleware: {} }, methods);
+    }
+
+    this.caseIndex = null;
+    this.registeredRoutes.push({
+      path,
+      filePath: 'manual',
+      type: routeInfo.type,
+      methods,
+      methodFiles: Object.fromEntries(methods.map(method => [method, 'manual'])),
+      middleware: Object.fromEntries(methods.map(method => [method, []])),
+      parameters: getRouteParameterDetails(path),
+      groups: [],
+      root: 'manual'
+    });
+
+    this.updateStats();
+    this.log('info', `Manually added route: ${methods.join(', ')} ${path}`);
+  }
+
+  /**
+   * Elimina una ruta
+   */
+  removeRoute(path: string): boolean {
+    const index = this.registeredRoutes.findIndex(route => route.path === path);
+    if (index !== -1) {
+      this.registeredRoutes.splice(index, 1);
+      this.caseIndex = null;
+      this.updateStats();
+      this.log('info', `Removed route: ${path}`);
+      return true;
+    }
+    return false;
+  }
+
+  /**
+   * Verifica si una ruta existe
+   */
+  hasRoute(path: string): boolean {
+    return this.registeredRoutes.some(route => route.path === path);
+  }
+
+  /**
+   * Busca rutas por patrón
+   */
+  findRoutes(pattern: string | RegExp): RegisteredRoute[] {
+    if (typeof pattern === 'string') {
+      return this.registeredRoutes.filter(route => 
+        route.path.includes(pattern)
+      );
+    }
+    return this.registeredRoutes.filter(route => 
+      pattern.test(route.path)
+    );
+  }
+
+  /**
+   * Busca las rutas que pertenecen a un grupo: (group)
+   */
+  findRoutesByGroup(group: string): RegisteredRoute[] {
+    return this.registeredRoutes.filter(route => route.groups.includes(group));
+  }
+
+  /**
+   * Log con nivel configurable
+   */
+  protected log(level: 'info' | 'warn' | 'error', message: string, data?: any): void {
+    if (this.config.enableLogging) {
+      this.errorHandler.logError(level, `[Router] ${message}`, data);
+    }
+  }
+}
+
+/**
+ * Obtiene el ExecutionContext de la petición (ej: Cloudflare Workers), si el entorno lo tiene
+ */
+function getExecutionContext(c: Context): ExecutionContext | undefined {
+  try {
+    return c.executionCtx;
+  } catch {
+    return undefined;
+  }
+}
+
+/**
+ * Redirige con 308 a una ruta del mismo origen. Las barras iniciales se unen en una sola:
+ * una Location como //evil.com sería una URL relativa al protocolo hacia otro dominio.
+ */
+function redirectToPath(c: Context, target: string): Response {
+  return c.redirect(target.replace(/^\/{2,}/, '/'), 308);
+}
+
+/**
+ * Verifica si el export de un archivo de ruta es un HandlerConfig ({ handler, methods, ... })
+ */
+function isHandlerConfig(value: unknown): value is HandlerConfig<any> {
+  return typeof value === 'object' && value !== null && typeof (value as HandlerConfig).handler === 'function';
+}
+
+/**
+ * Verifica si un valor es una lista de middleware (array de funciones)
+ */
+function isMiddlewareList(value: unknown): value is RouteMiddleware[] {
+  return Array.isArray(value) && value.every(middleware => typeof middleware === 'function');
+}
+
+/**
+ * Nombre con el que se muestra un middleware en RegisteredRoute ('anonymous' si no tiene)
+ */
+function getMiddlewareName(middleware: RouteMiddleware): string {
+  return middleware.name || 'anonymous';
+}
+
+/**
+ * Ejecuta el middleware de una ruta en orden y por último el handler, al estilo de Hono:
+ * cada función llama a next() para continuar o devuelve una respuesta para cortar la cadena.
+ * El next() del último elemento continúa con la siguiente ruta de Hono. Si una función no
+ * hace ninguna de las dos cosas se lanza un error en lugar de responder un 200 vacío.
+ */
+async function runRouteChain(
+  c: ExtendedContext,
+  chain: (RouteMiddleware | RouteMethodHandler)[],
+  next: Next
+): Promise<Response> {
+  const dispatch = async (index: number): Promise<Response> => {
+    const response = await chain[index](c, async () => {
+      if (index + 1 < chain.length) {
+        c.res = await dispatch(index + 1);
+      } else {
+        await next();
+      }
+    });
+    if (!response && !c.finalized) {
+      throw new Error(`Route middleware ${getMiddlewareName(chain[index])} did not return a response or call next()`);
+    }
+    return response || c.res;
+  };
+  
+  return dispatch(0);
+}
+
+/**
+ * Obtiene los directorios raíz de rutas de la configuración (un directorio simple no tiene prefijo)
+ */
+export function getRoutesRoots(config: RouterConfig): RoutesRoot[] {
+  return typeof config.routesDirectory === 'string'
+    ? [{ dir: config.routesDirectory }]
+    : config.routesDirectory;
+}
+
+/**
+ * Une prefijos de URL normalizando las barras (ej: '/v1/' y 'billing' → '/v1/billing')
+ */
+export function joinPrefixes(...prefixes: (string | undefined)[]): string {
+  return prefixes
+    .flatMap(prefix => (prefix || '').split('/'))
+    .filter(Boolean)
+    .map(segment => '/' + segment)
+    .join('');
+}
@@ -0,0 +1,58 @@
+import { dirname, relative, resolve, sep } from 'path';
+import { RouteInfo } from '../types';
+
+/**
+ * Opciones para generar el módulo de rutas estáticas
+ */
+export interface StaticRoutesModuleOptions {
+  /** Módulo desde el que se importa el tipo StaticRouteTable (por defecto 'hono-my-router') */
+  importSource?: string;
+}
+
+/**
+ * Genera el código TypeScript de un módulo con un import estático por archivo de ruta y la
+ * tabla de rutas precalculada, para registrarla con StaticRouter.fromStaticRoutes() sin sistema de archivos
+ */
+export function generateStaticRoutesModule(
+  outputPath: string,
+  routeInfos: RouteInfo[],
+  options: StaticRoutesModuleOptions = {}
+): string {
+  const { importSource = 'hono-my-router' } = options;
+  const baseDir = dirname(resolve(outputPath));
+  const toModulePath = (filePath: string) => {
+    const modulePath = relative(baseDir, filePath).split(sep).join('/');
+    return modulePath.startsWith('.') ? modulePath : `./${modulePath}`;
+  };
+
+  const imports = routeInfos.map((routeInfo, index) => {
+    // Los bundlers resuelven .ts, .tsx, .js y .jsx sin extensión; .mts y .cts se importan con
+    // la extensión que emiten (.mjs y .cjs), como exige TypeScript, y el resto tal cual
+    const specifier = toModulePath(routeInfo.filePath)
+      .replace(/\.(tsx?|jsx?)$/, '')
+      .replace(/\.([mc])ts$/, '.$1js');
+    return `import * as route${index} from ${JSON.stringify(specifier)};`;
+  });
+
+  const entries = routeInfos.map((routeInfo, index) => {
+    const route: RouteInfo = {
+      ...routeInfo,
+      filePath: toModulePath(routeInfo.filePath),
+      ...(routeInfo.root !== undefined && { root: toModulePath(routeInfo.root) })
+    };
+    return `  { route: ${JSON.stringify(route)}, module: route${index} }`;
+  });
+
+  return [
+    '// Archivo generado por hono-my-router a partir de los archivos de ruta. No editar manualmente.',
+    `import type { StaticRouteTable } from ${JSON.stringify(importSource)};`,
+    ...imports,
+    '',
+    'export const staticRoutes: StaticRouteTable = [',
+    entries.join(',\n'),
+    '];',
+    '',
+    'export default staticRoutes;',
+    ''
+  ].join('\n');
+}
@@ -0,0 +1,35 @@
+/**
+ * Hono My Router - Static route tables for runtimes without a file system
+ *
+ * Entry point for Cloudflare Workers, Deno Deploy or single-file bundles: it serves the
+ * route table generated with router.writeStaticRoutes() and does not import any Node.js
+ * module (fs, path, crypto), so bundlers do not need Node.js polyfills.
+ *
+ *   import { StaticRouter } from 'hono-my-router/static';
+ *   import { staticRoutes } from './routes.generated';
+ *
+ *   const router = StaticRouter.fromStaticRoutes(staticRoutes);
+ *   await router.initialize();
+ *   export default router.getApp();
+ */
+
+// Router for static route tables
+export { StaticRouter } from './static-router';
+
+// Parameter extraction and validation
+export { ParameterExtractor } from './parameter-extractor';
+
+// Error handling
+export { ErrorHandler } from './error-handler';
+
+// Parameter patterns and declared parameter types ([id:int])
+export { VALIDATION_PATTERNS, PARAMETER_TYPES } from './validation-patterns';
+
+// Typed route handlers (defineRoute and HandlerFactory)
+export { defineRoute, handlerFactory } from './handler-factory';
+
+// URL normalization applied before matching (normalize option)
+export { normalizeUrlPath } from './url-normalization';
+
+// Type definitions
+export * from '../types';
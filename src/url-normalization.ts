@@ -0,0 +1,73 @@
+import { UrlNormalizationConfig } from '../types';
+
+/**
+ * Segmento de punto (. o ..), también codificado (%2e)
+ */
+const DOT_SEGMENT_PATTERN = /^(?:\.|%2e){1,2}$/i;
+
+/**
+ * Verifica si la ruta de una URL tiene codificación porcentual inválida (ej: /users/%E0%A4%A)
+ */
+export function isMalformedUrlPath(pathname: string): boolean {
+  try {
+    decodeURIComponent(pathname);
+    return false;
+  } catch {
+    return true;
+  }
+}
+
+/**
+ * Normaliza la ruta de una URL: une barras duplicadas y resuelve los segmentos . y ..
+ * sin salir de la raíz (ej: /api//users/%2e%2e/x → /api/x). La barra final se conserva.
+ */
+export function normalizeUrlPath(pathname: string, options: UrlNormalizationConfig = {}): string {
+  const { slashes = true, dotSegments = true } = options;
+  let normalized = slashes ? pathname.replace(/\/{2,}/g, '/') : pathname;
+
+  if (dotSegments) {
+    const segments = normalized.split('/').slice(1);
+    const output: string[] = [];
+
+    segments.forEach((segment, index) => {
+      if (!DOT_SEGMENT_PATTERN.test(segment)) {
+        output.push(segment);
+        return;
+      }
+      if (segment.replace(/%2e/gi, '.') === '..') {
+        output.pop();
+      }
+      // Un segmento de punto al final deja la ruta apuntando a la carpeta (ej: /a/b/.. → /a/)
+      if (index === segments.length - 1) {
+        output.push('');
+      }
+    });
+
+    normalized = '/' + output.join('/');
+  }
+
+  return normalized;
+}
+
+/**
+ * Decodifica la ruta de una URL como lo hace Hono: %25 se mantiene codificado para que
+ * los parámetros se decodifiquen una sola vez, y las secuencias inválidas se dejan tal cual
+ */
+export function decodeUrlPath(pathname: string): string {
+  if (!pathname.includes('%')) {
+    return pathname;
+  }
+  const path = pathname.replace(/%25/g, '%2525');
+  try {
+    return decodeURI(path);
+  } catch {
+    // Decodificar por separado cada secuencia para conservar solo las inválidas
+    return path.replace(/(?:%[0-9A-Fa-f]{2})+/g, sequence => {
+      try {
+        return decodeURI(sequence);
+      } catch {
+        return sequence;
+      }
+    });
+  }
+}
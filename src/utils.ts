@@ -1,6 +1,11 @@
 import { Hono } from 'hono';
 import { Router } from './router';
 import { RouterConfig, RouterInitResult } from '../types';
+import { findParameterTokens } from './route-pattern';
+import { getRouteExtensionPattern } from './route-files';
+
+// Validación de nombres de archivo de ruta (compartida con el scanner)
+export { isValidRouteFile } from './route-files';
 
 /**
  * Crea una aplicación Hono completa con router configurado
@@ -57,8 +62,17 @@ export function validateRouterConfig(config: RouterConfig): {
     errors.push('routesDirectory is required');
   }
   
-  if (typeof config.routesDirectory !== 'string') {
-    errors.push('routesDirectory must be a string');
+  if (Array.isArray(config.routesDirectory)) {
+    config.routesDirectory.forEach((root, index) => {
+      if (!root || typeof root.dir !== 'string') {
+        errors.push(`routesDirectory[${index}].dir must be a string`);
+      }
+      if (root && root.prefix !== undefined && typeof root.prefix !== 'string') {
+        errors.push(`routesDirectory[${index}].prefix must be a string`);
+      }
+    });
+  } else if (typeof config.routesDirectory !== 'string') {
+    errors.push('routesDirectory must be a string or an array of { dir, prefix }');
   }
   
   if (config.enableLogging !== undefined && typeof config.enableLogging !== 'boolean') {
@@ -105,7 +119,7 @@ export function filePathToApiPath(filePath: string, baseDir: string): string {
   let apiPath = filePath
     .replace(baseDir, '')
     .replace(/\\+/g, '/') // Normalizar separadores en Windows
-    .replace(/\.ts$|\.js$/, '') // Remover extensiones
+    .replace(getRouteExtensionPattern(), '') // Remover extensiones
     .replace(/\/index$/, ''); // Remover /index
   
   // Asegurar que comience con /
@@ -125,19 +139,7 @@ export function filePathToApiPath(filePath: string, baseDir: string): string {
  * Función de utilidad para extraer parámetros de una ruta
  */
 export function extractRouteParameters(routePath: string): string[] {
-  const params: string[] = [];
-  const segments = routePath.split('/').filter(Boolean);
-  
-  for (const segment of segments) {
-    if (segment.startsWith('[') && segment.endsWith(']')) {
-      const paramName = segment
-        .replace(/[\[\]]/g, '')
-        .replace(/^\.\.\./, '');
-      params.push(paramName);
-    }
-  }
-  
-  return params;
+  return findParameterTokens(routePath).map(token => token.name);
 }
 
 /**
@@ -146,12 +148,17 @@ export function extractRouteParameters(routePath: string): string[] {
 export function determineRouteType(routePath: string): import('../types').RouteType {
   const hasParams = routePath.includes('[');
   const hasVariableSegments = routePath.includes('[...');
-  const paramCount = (routePath.match(/\[/g) || []).length;
+  const hasOptionalVariableSegments = routePath.includes('[[...');
+  const paramCount = findParameterTokens(routePath).length;
   
   if (!hasParams) {
     return 'simple';
   }
   
+  if (hasOptionalVariableSegments) {
+    return 'optionalVariableSegments';
+  }
+  
   if (hasVariableSegments) {
     return 'variableSegments';
   }
@@ -163,29 +170,6 @@ export function determineRouteType(routePath: string): import('../types').RouteT
   return 'nested';
 }
 
-/**
- * Función de utilidad para validar nombre de archivo de ruta
- */
-export function isValidRouteFile(fileName: string): boolean {
-  // Debe ser un archivo .ts o .js
-  if (!/\.(ts|js)$/.test(fileName)) {
-    return false;
-  }
-  
-  // No debe ser un archivo de test
-  if (/\.(test|spec)\.(ts|js)$/.test(fileName)) {
-    return false;
-  }
-  
-  // No debe comenzar con punto o guión bajo
-  const baseName = fileName.replace(/\.(ts|js)$/, '');
-  if (baseName.startsWith('.') || baseName.startsWith('_')) {
-    return false;
-  }
-  
-  return true;
-}
-
 /**
  * Función de utilidad para crear un handler básico
  */
@@ -0,0 +1,40 @@
+/**
+ * Parameter validation helpers
+ */
+export const VALIDATION_PATTERNS = {
+  UUID: /^[0-9a-f]{8}-[0-9a-f]{4}-[1-5][0-9a-f]{3}-[89ab][0-9a-f]{3}-[0-9a-f]{12}$/i,
+  EMAIL: /^[^\s@]+@[^\s@]+\.[^\s@]+$/,
+  SLUG: /^[a-z0-9]+(?:-[a-z0-9]+)*$/,
+  NUMERIC: /^\d+$/,
+  ALPHA: /^[a-zA-Z]+$/,
+  ALPHANUMERIC: /^[a-zA-Z0-9]+$/
+};
+
+/**
+ * Definición de un tipo de parámetro declarable en el nombre de archivo
+ */
+export interface ParameterTypeDefinition {
+  /** Patrón que debe cumplir el valor */
+  pattern: RegExp;
+  /** Conversión del valor a su tipo declarado */
+  convert: (value: string) => string | number;
+}
+
+/**
+ * Tipos de parámetro admitidos en los nombres de archivo ([id:int], [ref:uuid], [slug:slug])
+ */
+export const PARAMETER_TYPES: { [type: string]: ParameterTypeDefinition } = {
+  int: { pattern: VALIDATION_PATTERNS.NUMERIC, convert: value => parseInt(value, 10) },
+  uuid: { pattern: VALIDATION_PATTERNS.UUID, convert: value => value },
+  slug: { pattern: VALIDATION_PATTERNS.SLUG, convert: value => value },
+  alpha: { pattern: VALIDATION_PATTERNS.ALPHA, convert: value => value },
+  alphanumeric: { pattern: VALIDATION_PATTERNS.ALPHANUMERIC, convert: value => value }
+};
+
+/**
+ * Obtiene la expresión (sin anclas) de un tipo de parámetro para usarla dentro de un patrón de ruta
+ */
+export function getParameterTypePattern(type: string): string | undefined {
+  const parameterType = PARAMETER_TYPES[type];
+  return parameterType && parameterType.pattern.source.replace(/^\^/, '').replace(/\$$/, '');
+}
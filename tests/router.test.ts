@@ -1,9 +1,18 @@
 import { describe, it, expect, beforeEach, afterEach, jest } from '@jest/globals';
+import { Hono } from 'hono';
 import { Router } from '../src/router';
+import { StaticRouter } from '../src/static';
 import { RouteScanner } from '../src/scanner';
 import { ParameterExtractor } from '../src/parameter-extractor';
+import { sortRoutesBySpecificity, determineRouteType, getRouteParameters } from '../src/route-analysis';
 import { ErrorHandler } from '../src/error-handler';
-import { RouterConfig } from '../types';
+import { MemoryFileSystem } from '../src/file-system';
+import { normalizeUrlPath } from '../src/url-normalization';
+import { createConcurrencyLimit } from '../src/concurrency';
+import { defineRoute, handlerFactory } from '../src/handler-factory';
+import { setupRoutes } from '../src/utils';
+import { generateStaticRoutesModule } from '../src/static-routes';
+import { RouterConfig, RouteInfo, TrailingSlashPolicy, HandlerConfig } from '../types';
 import * as fs from 'fs';
 import * as path from 'path';
 
@@ -42,6 +51,20 @@ describe('Router', () => {
     }
   });
 
+  // Router inicializado sobre un sistema de archivos en memoria con los archivos de ruta indicados
+  const createMemoryRouter = async (
+    files: { [filePath: string]: Record<string, any> },
+    config: Partial<RouterConfig> = {}
+  ) => {
+    const memoryRouter = new Router({
+      routesDirectory: '/routes',
+      fileSystem: new MemoryFileSystem(files),
+      enableLogging: false,
+      ...config
+    });
+    return { router: memoryRouter, result: await memoryRouter.initialize() };
+  };
+
   describe('Constructor', () => {
     it('should create router with valid config', () => {
       expect(router).toBeInstanceOf(Router);
@@ -123,6 +146,1335 @@ export async function get(c: Context) {
     });
 
 
+    it('should register index files as the directory route', async () => {
+      const indexDir = path.join(__dirname, 'temp-index-routes');
+      fs.mkdirSync(path.join(indexDir, 'users'), { recursive: true });
+      fs.writeFileSync(
+        path.join(indexDir, 'index.ts'),
+        `export async function get(c: any) { return c.json({ root: true }); }`
+      );
+      fs.writeFileSync(
+        path.join(indexDir, 'users', 'index.ts'),
+        `export async function get(c: any) { return c.json({ users: [] }); }`
+      );
+
+      const indexRouter = new Router({ routesDirectory: indexDir, enableLogging: false });
+      const result = await indexRouter.initialize();
+      const paths = indexRouter.getRoutes().map(route => route.path).sort();
+
+      expect(result.success).toBe(true);
+      expect(paths).toEqual(['/', '/users']);
+
+      const usersResponse = await indexRouter.getApp().request('/users');
+      expect(usersResponse.status).toBe(200);
+
+      const rootResponse = await indexRouter.getApp().request('/');
+      expect(await rootResponse.json()).toEqual({ root: true });
+
+      fs.rmSync(indexDir, { recursive: true, force: true });
+    });
+
+    it('should report a conflict between a file and an index file', async () => {
+      const conflictDir = path.join(__dirname, 'temp-index-conflict');
+      fs.mkdirSync(path.join(conflictDir, 'users'), { recursive: true });
+      fs.writeFileSync(path.join(conflictDir, 'users.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(conflictDir, 'users', 'index.ts'), 'export function get() {}');
+
+      const conflictRouter = new Router({ routesDirectory: conflictDir, enableLogging: false });
+      const result = await conflictRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`'/users'`);
+      expect(result.error).toContain('users.ts');
+      expect(result.error).toContain('users/index.ts');
+
+      fs.rmSync(conflictDir, { recursive: true, force: true });
+    });
+
+    it('should serve catch-all routes with and without optional segments', async () => {
+      const catchAllDir = path.join(__dirname, 'temp-catch-all');
+      fs.mkdirSync(path.join(catchAllDir, 'products'), { recursive: true });
+      fs.mkdirSync(path.join(catchAllDir, 'docs'), { recursive: true });
+      const handlerSource = `export async function get(c: any) { return c.json(c.routeParams); }`;
+      fs.writeFileSync(path.join(catchAllDir, 'products', '[...segments].ts'), handlerSource);
+      fs.writeFileSync(path.join(catchAllDir, 'docs', '[[...slug]].ts'), handlerSource);
+
+      const catchAllRouter = new Router({ routesDirectory: catchAllDir, enableLogging: false });
+      await catchAllRouter.initialize();
+      const app = catchAllRouter.getApp();
+
+      expect(await (await app.request('/products/a/b')).json()).toEqual({ segments: ['a', 'b'] });
+      expect((await app.request('/products')).status).toBe(404);
+      expect(await (await app.request('/docs')).json()).toEqual({ slug: [] });
+      expect(await (await app.request('/docs/guide/intro')).json()).toEqual({ slug: ['guide', 'intro'] });
+
+      const docsRoute = catchAllRouter.getRoutes().find(route => route.path === '/docs/[[...slug]]');
+      expect(docsRoute?.type).toBe('optionalVariableSegments');
+
+      fs.rmSync(catchAllDir, { recursive: true, force: true });
+    });
+    it('should skip files matching excludePatterns', async () => {
+      fs.mkdirSync(path.join(tempDir, 'legacy'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'users.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'legacy', 'users.ts'), 'export function get() {}');
+
+      const excludeRouter = new Router({ ...testConfig, excludePatterns: ['legacy/**'] });
+      await excludeRouter.initialize();
+
+      expect(excludeRouter.getRoutes().map(route => route.path)).toEqual(['/users']);
+    });
+  });
+
+  describe('Optional Parameters', () => {
+    it('should serve routes with and without an optional parameter', async () => {
+      const optionalDir = path.join(__dirname, 'temp-optional-params');
+      fs.mkdirSync(path.join(optionalDir, 'reports'), { recursive: true });
+      fs.writeFileSync(
+        path.join(optionalDir, 'reports', '[[year]].ts'),
+        `export async function get(c: any) { return c.json({ year: c.routeParams.year ?? null }); }`
+      );
+
+      const optionalRouter = new Router({ routesDirectory: optionalDir, enableLogging: false });
+      await optionalRouter.initialize();
+      const app = optionalRouter.getApp();
+
+      expect(await (await app.request('/reports')).json()).toEqual({ year: null });
+      expect(await (await app.request('/reports/2024')).json()).toEqual({ year: '2024' });
+
+      const [route] = optionalRouter.getRoutes();
+      expect(route.parameters).toEqual([{ name: 'year', optional: true, variable: false }]);
+
+      fs.rmSync(optionalDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Route Groups', () => {
+    it('should drop group folders from the URL and record the group', async () => {
+      const groupsDir = path.join(__dirname, 'temp-route-groups');
+      fs.mkdirSync(path.join(groupsDir, '(admin)', 'api'), { recursive: true });
+      fs.mkdirSync(path.join(groupsDir, '(public)', 'api'), { recursive: true });
+      fs.writeFileSync(
+        path.join(groupsDir, '(admin)', 'api', 'settings.ts'),
+        `export async function get(c: any) { return c.json({ settings: true }); }`
+      );
+      fs.writeFileSync(
+        path.join(groupsDir, '(public)', 'api', 'health.ts'),
+        `export async function get(c: any) { return c.json({ healthy: true }); }`
+      );
+
+      const groupsRouter = new Router({ routesDirectory: groupsDir, enableLogging: false });
+      await groupsRouter.initialize();
+
+      const response = await groupsRouter.getApp().request('/api/settings');
+      expect(await response.json()).toEqual({ settings: true });
+
+      const adminRoutes = groupsRouter.findRoutesByGroup('admin');
+      expect(adminRoutes.map(route => route.path)).toEqual(['/api/settings']);
+      expect(adminRoutes[0].groups).toEqual(['admin']);
+
+      fs.rmSync(groupsDir, { recursive: true, force: true });
+    });
+
+    it('should report a conflict when two groups produce the same URL', async () => {
+      const groupsDir = path.join(__dirname, 'temp-route-groups-conflict');
+      fs.mkdirSync(path.join(groupsDir, '(admin)', 'api'), { recursive: true });
+      fs.mkdirSync(path.join(groupsDir, '(public)', 'api'), { recursive: true });
+      fs.writeFileSync(path.join(groupsDir, '(admin)', 'api', 'health.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(groupsDir, '(public)', 'api', 'health.ts'), 'export function get() {}');
+
+      const groupsRouter = new Router({ routesDirectory: groupsDir, enableLogging: false });
+      const result = await groupsRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('(admin)/api/health.ts');
+      expect(result.error).toContain('(public)/api/health.ts');
+
+      fs.rmSync(groupsDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Method-specific Files', () => {
+    let methodsDir: string;
+
+    beforeEach(() => {
+      methodsDir = path.join(__dirname, 'temp-method-files');
+      fs.mkdirSync(methodsDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(methodsDir, { recursive: true, force: true });
+    });
+
+    it('should merge method files into a single route', async () => {
+      fs.writeFileSync(
+        path.join(methodsDir, 'profile.get.ts'),
+        `export default async function (c: any) { return c.json({ method: 'GET' }); }`
+      );
+      fs.writeFileSync(
+        path.join(methodsDir, 'profile.patch.ts'),
+        `export async function patch(c: any) { return c.json({ method: 'PATCH' }); }
+export async function get(c: any) { return c.json({ ignored: true }); }`
+      );
+
+      const methodsRouter = new Router({ routesDirectory: methodsDir, enableLogging: false });
+      const result = await methodsRouter.initialize();
+      const routes = methodsRouter.getRoutes();
+
+      expect(result.success).toBe(true);
+      expect(routes).toHaveLength(1);
+      expect(routes[0].methods.sort()).toEqual(['GET', 'PATCH']);
+      expect(routes[0].methodFiles.PATCH).toBe(path.join(methodsDir, 'profile.patch.ts'));
+
+      const app = methodsRouter.getApp();
+      expect(await (await app.request('/profile')).json()).toEqual({ method: 'GET' });
+      expect(await (await app.request('/profile', { method: 'PATCH' })).json()).toEqual({ method: 'PATCH' });
+    });
+
+    it('should report a method defined in both a suffixed and a plain file', async () => {
+      fs.writeFileSync(path.join(methodsDir, 'profile.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(methodsDir, 'profile.get.ts'), 'export function get() {}');
+
+      const methodsRouter = new Router({ routesDirectory: methodsDir, enableLogging: false });
+      const result = await methodsRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain('Method conflict: GET /profile');
+    });
+  });
+
+  describe('HTTP Method Exports', () => {
+    it('should map the del export to DELETE', async () => {
+      const fileSystem = new MemoryFileSystem({
+        '/routes/users/[id].ts': {
+          get: (c: any) => c.json({ id: c.routeParams.id }),
+          del: (c: any) => c.json({ deleted: c.routeParams.id })
+        }
+      });
+      const methodRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false });
+      await methodRouter.initialize();
+      const app = methodRouter.getApp();
+
+      expect(methodRouter.getRoutes()[0].methods).toEqual(['GET', 'DELETE']);
+      expect(await (await app.request('/users/7', { method: 'DELETE' })).json()).toEqual({ deleted: '7' });
+    });
+
+    it('should use the all export for methods without their own handler', async () => {
+      const fileSystem = new MemoryFileSystem({
+        '/routes/items.ts': {
+          get: (c: any) => c.json({ handler: 'get' }),
+          all: (c: any) => c.json({ handler: 'all', method: c.req.method })
+        },
+        '/routes/profile.ts': { all: (c: any) => c.json({ handler: 'all' }) },
+        '/routes/profile.get.ts': { default: (c: any) => c.json({ handler: 'get' }) }
+      });
+      const methodRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false });
+      await methodRouter.initialize();
+      const app = methodRouter.getApp();
+
+      expect(await (await app.request('/items')).json()).toEqual({ handler: 'get' });
+      expect(await (await app.request('/items', { method: 'PUT' })).json()).toEqual({ handler: 'all', method: 'PUT' });
+      expect(await (await app.request('/profile')).json()).toEqual({ handler: 'get' });
+      expect(await (await app.request('/profile', { method: 'POST' })).json()).toEqual({ handler: 'all' });
+      expect(methodRouter.getStats().routesByMethod).toEqual({ GET: 2, ALL: 2 });
+    });
+
+    it('should register extension methods listed in the methods config', async () => {
+      const fileSystem = new MemoryFileSystem({
+        '/routes/dav/[...path].ts': { propfind: (c: any) => c.json({ path: c.routeParams.path }) },
+        '/routes/search.query.ts': { default: (c: any) => c.json({ query: true }) }
+      });
+      const methodRouter = new Router({
+        routesDirectory: '/routes',
+        fileSystem,
+        methods: ['PROPFIND', 'query'],
+        enableLogging: false
+      });
+      await methodRouter.initialize();
+      const app = methodRouter.getApp();
+
+      expect(methodRouter.getRoutes().map(route => [route.path, route.methods]))
+        .toEqual([['/search', ['QUERY']], ['/dav/[...path]', ['PROPFIND']]]);
+      expect(await (await app.request('/dav/a/b', { method: 'PROPFIND' })).json()).toEqual({ path: ['a', 'b'] });
+      expect(await (await app.request('/search', { method: 'QUERY' })).json()).toEqual({ query: true });
+      expect((await app.request('/dav/a/b')).status).toBe(404);
+      expect(methodRouter.getStats().routesByMethod).toEqual({ QUERY: 1, PROPFIND: 1 });
+    });
+
+    it('should reject misspelled method handlers in addRoute', async () => {
+      const fileSystem = new MemoryFileSystem({ '/routes/index.ts': { get: (c: any) => c.text('home') } });
+      const methodRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false });
+      await methodRouter.initialize();
+
+      // @ts-expect-error: 'gte' is not an HTTP method handler
+      methodRouter.addRoute('/typo', { gte: (c: any) => c.text('typo') });
+      methodRouter.addRoute('/items', { all: (c: any) => c.text(c.req.method) }, ['ALL']);
+
+      expect(await (await methodRouter.getApp().request('/items', { method: 'PUT' })).text()).toBe('PUT');
+    });
+  });
+
+  describe('Handler Config Exports', () => {
+    it('should register the handler for every configured method', async () => {
+      const config: HandlerConfig<{ id: number }> = {
+        handler: (c) => c.json({ method: c.req.method, id: c.routeParams.id }),
+        methods: ['GET', 'POST']
+      };
+      const { router: configRouter } = await createMemoryRouter({ '/routes/users/[id:int].ts': { default: config } });
+      const app = configRouter.getApp();
+
+      expect(configRouter.getRoutes()[0].methods).toEqual(['GET', 'POST']);
+      expect(await (await app.request('/users/3')).json()).toEqual({ method: 'GET', id: 3 });
+      expect(await (await app.request('/users/3', { method: 'POST' })).json()).toEqual({ method: 'POST', id: 3 });
+      expect((await app.request('/users/3', { method: 'PUT' })).status).toBe(404);
+    });
+
+    it('should run the middleware in order before the handler', async () => {
+      const calls: string[] = [];
+      const config: HandlerConfig = {
+        handler: (c) => {
+          calls.push('handler');
+          return c.json({ ok: true });
+        },
+        middleware: [
+          async (c, next) => {
+            calls.push('first');
+            await next();
+            c.res.headers.set('X-Chain', 'done');
+          },
+          (c, next) => c.req.header('Authorization') ? next() : c.json({ error: 'Unauthorized' }, 401)
+        ]
+      };
+      const app = (await createMemoryRouter({ '/routes/account.ts': { default: config } })).router.getApp();
+
+      const denied = await app.request('/account');
+      expect(denied.status).toBe(401);
+      expect(calls).toEqual(['first']);
+
+      const allowed = await app.request('/account', { headers: { Authorization: 'token' } });
+      expect(allowed.status).toBe(200);
+      expect(allowed.headers.get('X-Chain')).toBe('done');
+      expect(calls).toEqual(['first', 'first', 'handler']);
+    });
+
+    it('should validate parameters before calling the handler', async () => {
+      const config: HandlerConfig<{ slug: string }> = {
+        handler: (c) => c.json({ slug: c.routeParams.slug }),
+        validation: {
+          slug: { pattern: /^[a-z-]+$/, errorMessage: 'Invalid slug' }
+        }
+      };
+      const app = (await createMemoryRouter({ '/routes/posts/[slug].ts': { default: config } })).router.getApp();
+
+      expect(await (await app.request('/posts/hello-world')).json()).toEqual({ slug: 'hello-world' });
+      const response = await app.request('/posts/Hello_World');
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual(expect.objectContaining({
+        error: 'Validation Error',
+        validationErrors: [expect.objectContaining({ parameter: 'slug', message: 'Invalid slug' })]
+      }));
+    });
+
+    it('should reject validation for parameters the route does not define', async () => {
+      const { result } = await createMemoryRouter({
+        '/routes/posts/[slug].ts': {
+          default: { handler: (c: any) => c.text('post'), validation: { id: { pattern: /^\d+$/ } } }
+        }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Route validation mismatch in /routes/posts/[slug].ts: the handler validates [id] ' +
+        'but /posts/[slug] defines [slug]'
+      );
+    });
+
+    it('should reject handler config methods the router does not know', async () => {
+      const handler = (c: any) => c.text(c.req.method);
+      const files = { '/routes/dav.ts': { default: { handler, methods: ['GET', 'PROPFIND'] } } };
+      const { result } = await createMemoryRouter(files);
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        `Unknown HTTP method 'PROPFIND' in /routes/dav.ts: add it to the router's methods option to register it`
+      );
+
+      const { router: configRouter, result: configResult } = await createMemoryRouter(files, { methods: ['PROPFIND'] });
+      expect(configResult.success).toBe(true);
+      expect(await (await configRouter.getApp().request('/dav', { method: 'PROPFIND' })).text()).toBe('PROPFIND');
+    });
+
+    it('should default to the method of the file suffix', async () => {
+      const config: HandlerConfig = { handler: (c) => c.json({ created: true }, 201) };
+      const { router: configRouter } = await createMemoryRouter({ '/routes/items.post.ts': { default: config } });
+
+      expect(configRouter.getRoutes()[0].methods).toEqual(['POST']);
+      expect((await configRouter.getApp().request('/items', { method: 'POST' })).status).toBe(201);
+    });
+
+    it('should register a route with a handler config passed to registerRoute', async () => {
+      const { router: configRouter } = await createMemoryRouter({ '/routes/index.ts': { get: (c: any) => c.text('home') } });
+      const routeInfo: RouteInfo = {
+        pattern: '/ping',
+        path: '/ping',
+        type: 'simple',
+        params: {},
+        parameters: [],
+        filePath: 'manual',
+        method: 'GET'
+      };
+
+      await configRouter.registerRoute(routeInfo, { handler: (c) => c.text('pong'), methods: ['GET', 'HEAD'] });
+
+      expect(await (await configRouter.getApp().request('/ping')).text()).toBe('pong');
+      expect(configRouter.getRoutes().find(route => route.path === '/ping')?.methods).toEqual(['GET', 'HEAD']);
+    });
+  });
+
+  describe('Typed Route Definitions', () => {
+    it('should type c.params from the declared parameters', async () => {
+      const route = defineRoute({
+        params: ['userId:int', '...path'],
+        handler: (c) => {
+          // @ts-expect-error: 'name' is not a declared parameter
+          c.params.name;
+          return c.json({ next: c.params.userId + 1, file: c.params.path.join('/') });
+        }
+      });
+      const { router: definedRouter, result } = await createMemoryRouter({
+        '/routes/users/[userId:int]/files/[...path].ts': { default: route }
+      });
+
+      expect(result.success).toBe(true);
+      expect(await (await definedRouter.getApp().request('/users/41/files/a/b.txt')).json())
+        .toEqual({ next: 42, file: 'a/b.txt' });
+    });
+
+    it('should build handlers with the handler factory', async () => {
+      const { router: definedRouter, result } = await createMemoryRouter({
+        '/routes/index.ts': { default: handlerFactory.simple((c) => c.text('home')) },
+        '/routes/posts/[slug].ts': { default: handlerFactory.singleParam('slug', (c) => c.text(c.params.slug)) },
+        '/routes/docs/[...pages].ts': {
+          default: handlerFactory.variableSegment('pages', (c) => c.text(c.params.pages.join('>')))
+        }
+      });
+      const app = definedRouter.getApp();
+
+      expect(result.success).toBe(true);
+      expect(await (await app.request('/')).text()).toBe('home');
+      expect(await (await app.request('/posts/hello')).text()).toBe('hello');
+      expect(await (await app.request('/docs/a/b')).text()).toBe('a>b');
+    });
+
+    it('should report declared parameters that do not match the file path', async () => {
+      const { result } = await createMemoryRouter({
+        '/routes/users/[id:int].ts': {
+          default: defineRoute({ params: ['userId'], handler: (c) => c.text(c.params.userId) })
+        }
+      });
+
+      expect(result.success).toBe(false);
+      expect(result.error).toBe(
+        'Route parameter mismatch in /routes/users/[id:int].ts: the handler declares [userId] ' +
+        'but /users/[id:int] defines [id:int]'
+      );
+    });
+
+    it('should declare optional parameters with a trailing ?', async () => {
+      const route = defineRoute({
+        params: ['year:int?', '...slug'],
+        handler: (c) => {
+          // @ts-expect-error: an optional parameter may be undefined
+          const year: number = c.params.year;
+          return c.json({ year: year ?? c.params.year ?? 'all', slug: c.params.slug });
+        }
+      });
+      const { router: definedRouter, result } = await createMemoryRouter({
+        '/routes/reports/[[year:int]]/[[...slug]].ts': { default: route }
+      });
+      const app = definedRouter.getApp();
+
+      expect(result.success).toBe(true);
+      expect(await (await app.request('/reports/2024/q1')).json()).toEqual({ year: 2024, slug: ['q1'] });
+      expect(await (await app.request('/reports')).json()).toEqual({ year: 'all', slug: [] });
+
+      const { result: requiredResult } = await createMemoryRouter({
+        '/routes/reports/[[year]].ts': { default: defineRoute({ params: ['year'], handler: (c) => c.text(c.params.year) }) }
+      });
+      expect(requiredResult.success).toBe(false);
+      expect(requiredResult.error).toBe(
+        'Route parameter mismatch in /routes/reports/[[year]].ts: the handler declares [year] ' +
+        'but /reports/[[year]] defines [year?]'
+      );
+    });
+  });
+
+  describe('Route Middleware Exports', () => {
+    const requireAuth = (c: any, next: () => Promise<void>) =>
+      c.req.header('Authorization') ? next() : c.json({ error: 'Unauthorized' }, 401);
+
+    it('should run exported middleware in order before every method', async () => {
+      const calls: string[] = [];
+      const timing = async function timing(c: any, next: () => Promise<void>) {
+        calls.push('timing');
+        await next();
+        c.res.headers.set('X-Handled-By', c.req.method);
+      };
+      const { router: middlewareRouter } = await createMemoryRouter({
+        '/routes/orders.ts': {
+          middleware: [timing, requireAuth],
+          get: (c: any) => c.json({ orders: [] }),
+          post: (c: any) => c.json({ created: true }, 201)
+        }
+      });
+      const app = middlewareRouter.getApp();
+
+      expect((await app.request('/orders')).status).toBe(401);
+      const response = await app.request('/orders', { method: 'POST', headers: { Authorization: 'token' } });
+      expect(response.status).toBe(201);
+      expect(response.headers.get('X-Handled-By')).toBe('POST');
+      expect(calls).toEqual(['timing', 'timing']);
+      expect(middlewareRouter.getRoutes()[0].middleware)
+        .toEqual({ GET: ['timing', 'requireAuth'], POST: ['timing', 'requireAuth'] });
+    });
+
+    it('should fail when a middleware neither responds nor calls next', async () => {
+      const errorSpy = jest.spyOn(console, 'error').mockImplementation(() => {});
+      const { router: middlewareRouter } = await createMemoryRouter({
+        '/routes/orders.ts': {
+          middleware: [async function swallow() {}],
+          get: (c: any) => c.json({ orders: [] })
+        }
+      });
+
+      const response = await middlewareRouter.getApp().request('/orders');
+      expect(response.status).toBe(500);
+      expect(errorSpy.mock.calls[0][1]).toEqual(
+        new Error('Route middleware swallow did not return a response or call next()')
+      );
+      errorSpy.mockRestore();
+    });
+
+    it('should apply per-method middleware only to its methods', async () => {
+      const { router: middlewareRouter } = await createMemoryRouter({
+        '/routes/posts/[id].ts': {
+          middleware: { post: [requireAuth], del: [requireAuth] },
+          get: (c: any) => c.json({ id: c.routeParams.id }),
+          post: (c: any) => c.json({ updated: true }),
+          del: (c: any) => c.json({ deleted: true })
+        }
+      });
+      const app = middlewareRouter.getApp();
+
+      expect((await app.request('/posts/1')).status).toBe(200);
+      expect((await app.request('/posts/1', { method: 'POST' })).status).toBe(401);
+      expect((await app.request('/posts/1', { method: 'DELETE' })).status).toBe(401);
+      expect((await app.request('/posts/1', { method: 'DELETE', headers: { Authorization: 'token' } })).status).toBe(200);
+      expect(middlewareRouter.getRoutes()[0].middleware)
+        .toEqual({ GET: [], POST: ['requireAuth'], DELETE: ['requireAuth'] });
+    });
+
+    it('should run exported middleware before the handler config middleware', async () => {
+      const calls: string[] = [];
+      const exported = async (_c: any, next: () => Promise<void>) => { calls.push('exported'); await next(); };
+      const config: HandlerConfig = {
+        middleware: [async function configured(_c, next) { calls.push('configured'); await next(); }],
+        handler: (c) => c.text('ok')
+      };
+      const { router: middlewareRouter } = await createMemoryRouter({
+        '/routes/status.ts': { middleware: [exported], default: config }
+      });
+
+      expect(await (await middlewareRouter.getApp().request('/status')).text()).toBe('ok');
+      expect(calls).toEqual(['exported', 'configured']);
+      expect(middlewareRouter.getRoutes()[0].middleware).toEqual({ GET: ['exported', 'configured'] });
+    });
+  });
+
+  describe('Typed Parameters', () => {
+    let typedDir: string;
+
+    beforeEach(() => {
+      typedDir = path.join(__dirname, 'temp-typed-params');
+      fs.mkdirSync(path.join(typedDir, 'users'), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(typedDir, { recursive: true, force: true });
+    });
+
+    it('should coerce typed parameters and fall through on mismatch', async () => {
+      fs.writeFileSync(
+        path.join(typedDir, 'users', '[id:int].ts'),
+        `export async function get(c: any) { return c.json({ id: c.routeParams.id }); }`
+      );
+      fs.writeFileSync(
+        path.join(typedDir, 'users', '[username].ts'),
+        `export async function get(c: any) { return c.json({ username: c.routeParams.username }); }`
+      );
+      fs.writeFileSync(
+        path.join(typedDir, '[ref:uuid].ts'),
+        `export async function get(c: any) { return c.json({ ref: c.routeParams.ref }); }`
+      );
+
+      const typedRouter = new Router({ routesDirectory: typedDir, enableLogging: false });
+      await typedRouter.initialize();
+      const app = typedRouter.getApp();
+
+      expect(await (await app.request('/users/42')).json()).toEqual({ id: 42 });
+      expect(await (await app.request('/users/ana')).json()).toEqual({ username: 'ana' });
+      expect((await app.request('/not-a-uuid')).status).toBe(404);
+
+      const idRoute = typedRouter.getRoutes().find(route => route.path === '/users/[id:int]');
+      expect(idRoute?.parameters).toEqual([{ name: 'id', optional: false, variable: false, type: 'int' }]);
+    });
+
+    it('should fail initialization on unknown parameter types', async () => {
+      fs.writeFileSync(path.join(typedDir, 'users', '[id:integer].ts'), 'export function get() {}');
+
+      const typedRouter = new Router({ routesDirectory: typedDir, enableLogging: false });
+      const result = await typedRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`Unknown parameter type 'integer'`);
+      expect(result.error).toContain('users/[id:integer].ts');
+    });
+
+    it('should compile each route matcher once at registration', async () => {
+      const createMatcher = jest.spyOn(ParameterExtractor.prototype, 'createParameterMatcher');
+      const fileSystem = new MemoryFileSystem({
+        '/routes/users/[id:int].ts': { get: (c: any) => c.json(c.routeParams), post: (c: any) => c.text('created') },
+        '/routes/users/[username].ts': { get: (c: any) => c.json(c.routeParams) }
+      });
+      try {
+        const typedRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false });
+        await typedRouter.initialize();
+        expect(createMatcher).toHaveBeenCalledTimes(2);
+
+        const app = typedRouter.getApp();
+        expect(await (await app.request('/users/42')).json()).toEqual({ id: 42 });
+        expect(await (await app.request('/users/ana')).json()).toEqual({ username: 'ana' });
+        expect(createMatcher).toHaveBeenCalledTimes(2);
+      } finally {
+        createMatcher.mockRestore();
+      }
+    });
+  });
+
+  describe('Inline Constraints', () => {
+    let constraintsDir: string;
+
+    beforeEach(() => {
+      constraintsDir = path.join(__dirname, 'temp-constraints');
+      fs.mkdirSync(path.join(constraintsDir, '[lang(en|es|fr)]'), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(constraintsDir, { recursive: true, force: true });
+    });
+
+    it('should only match URLs that satisfy the constraint', async () => {
+      fs.writeFileSync(
+        path.join(constraintsDir, '[lang(en|es|fr)]', 'index.ts'),
+        `export async function get(c: any) { return c.json(c.routeParams); }`
+      );
+
+      const constraintsRouter = new Router({ routesDirectory: constraintsDir, enableLogging: false });
+      await constraintsRouter.initialize();
+      const app = constraintsRouter.getApp();
+
+      expect(await (await app.request('/es')).json()).toEqual({ lang: 'es' });
+      expect((await app.request('/de')).status).toBe(404);
+
+      const [route] = constraintsRouter.getRoutes();
+      expect(route.parameters[0].constraint).toBe('en|es|fr');
+    });
+
+    it('should reject invalid constraints naming the file', async () => {
+      fs.writeFileSync(path.join(constraintsDir, '[n(a{2,1})].ts'), 'export function get() {}');
+
+      const constraintsRouter = new Router({ routesDirectory: constraintsDir, enableLogging: false });
+      const result = await constraintsRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`Invalid constraint '(a{2,1})'`);
+      expect(result.error).toContain('[n(a{2,1})].ts');
+    });
+  });
+
+  describe('Partial-segment Parameters', () => {
+    it('should route segments that mix static text and parameters', async () => {
+      const partialDir = path.join(__dirname, 'temp-partial-segments');
+      fs.mkdirSync(path.join(partialDir, 'blog'), { recursive: true });
+      fs.mkdirSync(path.join(partialDir, 'files'), { recursive: true });
+      const handlerSource = `export async function get(c: any) { return c.json(c.routeParams); }`;
+      fs.writeFileSync(path.join(partialDir, 'blog', 'post-[slug].ts'), handlerSource);
+      fs.writeFileSync(path.join(partialDir, 'files', '[name].[ext].ts'), handlerSource);
+
+      const partialRouter = new Router({ routesDirectory: partialDir, enableLogging: false });
+      await partialRouter.initialize();
+      const app = partialRouter.getApp();
+
+      expect(await (await app.request('/blog/post-hello-world')).json()).toEqual({ slug: 'hello-world' });
+      expect((await app.request('/blog/hello-world')).status).toBe(404);
+      expect(await (await app.request('/files/report-2024.pdf')).json())
+        .toEqual({ name: 'report-2024', ext: 'pdf' });
+
+      fs.rmSync(partialDir, { recursive: true, force: true });
+    });
+  });
+
+  describe('Route Specificity', () => {
+    let specificityDir: string;
+
+    beforeEach(() => {
+      specificityDir = path.join(__dirname, 'temp-specificity');
+      fs.mkdirSync(path.join(specificityDir, 'products'), { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(specificityDir, { recursive: true, force: true });
+    });
+
+    it('should serve static routes before catch-all routes', async () => {
+      fs.writeFileSync(
+        path.join(specificityDir, 'products', '[...segments].ts'),
+        `export async function get(c: any) { return c.json(c.routeParams); }`
+      );
+      fs.writeFileSync(
+        path.join(specificityDir, 'products', 'featured.ts'),
+        `export async function get(c: any) { return c.json({ featured: true }); }`
+      );
+
+      const specificityRouter = new Router({ routesDirectory: specificityDir, enableLogging: false });
+      const result = await specificityRouter.initialize();
+      const app = specificityRouter.getApp();
+
+      expect(result.conflicts).toEqual([]);
+      expect(await (await app.request('/products/featured')).json()).toEqual({ featured: true });
+      expect(await (await app.request('/products/a/b')).json()).toEqual({ segments: ['a', 'b'] });
+      expect(specificityRouter.getRoutes().map(route => route.path))
+        .toEqual(['/products/featured', '/products/[...segments]']);
+    });
+
+    it('should report ambiguous routes and fail in strict mode', async () => {
+      fs.writeFileSync(path.join(specificityDir, 'products', '[id].ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(specificityDir, 'products', '[productId].ts'), 'export function get() {}');
+
+      const lenientRouter = new Router({ routesDirectory: specificityDir, enableLogging: false });
+      const lenientResult = await lenientRouter.initialize();
+
+      expect(lenientResult.success).toBe(true);
+      expect(lenientResult.conflicts).toHaveLength(1);
+      expect(lenientResult.conflicts![0].type).toBe('ambiguous');
+      expect(lenientResult.conflicts![0].message).toContain(`'/products/[id]', '/products/[productId]'`);
+
+      const strictRouter = new Router({
+        routesDirectory: specificityDir,
+        enableLogging: false,
+        strictConflicts: true
+      });
+      const strictResult = await strictRouter.initialize();
+
+      expect(strictResult.success).toBe(false);
+      expect(strictResult.error).toContain('Ambiguous routes');
+      expect(strictResult.conflicts).toHaveLength(1);
+    });
+  });
+
+  describe('Multiple Route Roots', () => {
+    let billingDir: string;
+    let authDir: string;
+
+    beforeEach(() => {
+      billingDir = path.join(__dirname, 'temp-roots', 'billing');
+      authDir = path.join(__dirname, 'temp-roots', 'auth');
+      fs.mkdirSync(path.join(billingDir, 'invoices'), { recursive: true });
+      fs.mkdirSync(authDir, { recursive: true });
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.join(__dirname, 'temp-roots'), { recursive: true, force: true });
+    });
+
+    it('should mount each root at its prefix and record the root', async () => {
+      fs.writeFileSync(
+        path.join(billingDir, 'invoices', '[id].ts'),
+        `export async function get(c: any) { return c.json({ invoice: c.routeParams.id }); }`
+      );
+      fs.writeFileSync(
+        path.join(authDir, 'index.ts'),
+        `export async function get(c: any) { return c.json({ auth: true }); }`
+      );
+
+      const rootsRouter = new Router({
+        routesDirectory: [
+          { dir: billingDir, prefix: '/billing' },
+          { dir: authDir, prefix: 'auth/' }
+        ],
+        enableLogging: false
+      });
+      const result = await rootsRouter.initialize();
+      const app = rootsRouter.getApp();
+
+      expect(result.success).toBe(true);
+      expect(await (await app.request('/billing/invoices/7')).json()).toEqual({ invoice: '7' });
+      expect(await (await app.request('/auth')).json()).toEqual({ auth: true });
+      expect(rootsRouter.getRoutes().map(route => [route.path, route.root])).toEqual([
+        ['/billing/invoices/[id]', billingDir],
+        ['/auth', authDir]
+      ]);
+    });
+
+    it('should report conflicts across roots', async () => {
+      fs.writeFileSync(path.join(billingDir, 'status.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(authDir, 'status.ts'), 'export function get() {}');
+
+      const rootsRouter = new Router({
+        routesDirectory: [{ dir: billingDir }, { dir: authDir }],
+        enableLogging: false
+      });
+      const result = await rootsRouter.initialize();
+
+      expect(result.success).toBe(false);
+      expect(result.error).toContain(`Route conflict: '/status'`);
+      expect(result.error).toContain('billing/status.ts');
+      expect(result.error).toContain('auth/status.ts');
+    });
+  });
+
+  describe('Base Prefix', () => {
+    it('should prefix scanned and manual routes', async () => {
+      fs.mkdirSync(path.join(tempDir, 'users'), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, 'users', '[id].ts'),
+        `export async function get(c: any) { return c.json({ id: c.routeParams.id }); }`
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'index.ts'),
+        `export async function get(c: any) { return c.json({ home: true }); }`
+      );
+
+      const prefixedRouter = new Router({ routesDirectory: tempDir, basePrefix: '/v1/', enableLogging: false });
+      await prefixedRouter.initialize();
+      prefixedRouter.addRoute('/health', { get: (c: any) => c.json({ ok: true }) });
+      const app = prefixedRouter.getApp();
+
+      expect(await (await app.request('/v1/users/5')).json()).toEqual({ id: '5' });
+      expect(await (await app.request('/v1')).json()).toEqual({ home: true });
+      expect(await (await app.request('/v1/health')).json()).toEqual({ ok: true });
+      expect(prefixedRouter.getRoutes().map(route => route.path).sort())
+        .toEqual(['/v1', '/v1/health', '/v1/users/[id]']);
+
+      const notFound = await app.request('/users/5');
+      expect(notFound.status).toBe(404);
+      expect((await notFound.json()).path).toBe('/users/5');
+    });
+  });
+
+  describe('Route Manifest', () => {
+    let manifestPath: string;
+
+    beforeEach(() => {
+      manifestPath = path.join(__dirname, 'temp-manifest', 'routes.json');
+      fs.mkdirSync(path.join(tempDir, 'users'), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, 'users', '[id].ts'),
+        `export async function get(c: any) { return c.json({ id: c.routeParams.id }); }`
+      );
+      fs.writeFileSync(path.join(tempDir, 'users', '[id].delete.ts'), 'export default function () {}');
+    });
+
+    afterEach(() => {
+      fs.rmSync(path.dirname(manifestPath), { recursive: true, force: true });
+    });
+
+    it('should write a manifest and load routes from it without scanning', async () => {
+      await router.initialize();
+      const manifest = await router.writeManifest(manifestPath);
+
+      expect(manifest.entries.map(entry => [entry.file.relativePath, entry.route.path, entry.methods])).toEqual([
+        ['users/[id].delete.ts', '/users/[id]', ['DELETE']],
+        ['users/[id].ts', '/users/[id]', ['GET']]
+      ]);
+      expect(manifest.entries[1].file.filePath).toBe('../temp-routes/users/[id].ts');
+
+      // Sin verificación los archivos nuevos no se escanean: solo cuenta el manifiesto
+      fs.writeFileSync(path.join(tempDir, 'extra.ts'), 'export function get() {}');
+      const manifestRouter = new Router({ ...testConfig, manifest: manifestPath });
+      const result = await manifestRouter.initialize();
+
+      expect(result.success).toBe(true);
+      expect(manifestRouter.getRoutes().map(route => [route.path, route.methods]))
+        .toEqual([['/users/[id]', ['GET', 'DELETE']]]);
+      expect(await (await manifestRouter.getApp().request('/users/3')).json()).toEqual({ id: '3' });
+    });
+
+    it('should fail on a stale manifest when a check is configured', async () => {
+      await router.initialize();
+      await router.writeManifest(manifestPath);
+      const changedFile = path.join(tempDir, 'users', '[id].ts');
+      fs.writeFileSync(changedFile, 'export function get() { return new Response("changed"); }');
+      fs.utimesSync(changedFile, new Date(), new Date(Date.now() + 60_000));
+
+      for (const manifestCheck of ['mtime', 'hash'] as const) {
+        const manifestRouter = new Router({ ...testConfig, manifest: manifestPath, manifestCheck });
+        const result = await manifestRouter.initialize();
+
+        expect(result.success).toBe(false);
+        expect(result.error).toContain('is stale: 1 file(s) added, changed or removed');
+        expect(result.error).toContain(changedFile);
+      }
+
+      // Los archivos de ruta que el manifiesto no incluye también lo invalidan
+      const addedFile = path.join(tempDir, 'extra.ts');
+      fs.writeFileSync(addedFile, 'export function get() {}');
+      await router.refresh();
+      await router.writeManifest(manifestPath);
+      const nextFile = path.join(tempDir, 'users', 'new.ts');
+      fs.writeFileSync(nextFile, 'export function get() {}');
+      const addedResult = await new Router({ ...testConfig, manifest: manifestPath, manifestCheck: 'mtime' }).initialize();
+      expect(addedResult.error).toContain(`is stale: 1 file(s) added, changed or removed since it was generated (${nextFile})`);
+
+      const uncheckedRouter = new Router({ ...testConfig, manifest: manifestPath });
+      expect((await uncheckedRouter.initialize()).success).toBe(true);
+    });
+
+    it('should read and write the manifest through the file system adapter', async () => {
+      const fileSystem = new MemoryFileSystem({ '/routes/users/[id].ts': { get: (c: any) => c.text(c.routeParams.id) } });
+      const memoryConfig = { routesDirectory: '/routes', fileSystem, enableLogging: false };
+      const memoryRouter = new Router(memoryConfig);
+      await memoryRouter.initialize();
+      await memoryRouter.writeManifest('/build/routes.json');
+
+      const manifestRouter = new Router({ ...memoryConfig, manifest: '/build/routes.json', manifestCheck: 'mtime' });
+      expect((await manifestRouter.initialize()).success).toBe(true);
+      expect(await (await manifestRouter.getApp().request('/users/7')).text()).toBe('7');
+
+      fileSystem.addFile('/routes/posts.ts', { get: (c: any) => c.text('posts') });
+      const staleResult = await new Router({ ...memoryConfig, manifest: '/build/routes.json', manifestCheck: 'mtime' }).initialize();
+      expect(staleResult.error).toContain('(/routes/posts.ts)');
+    });
+
+    it('should write static routes through the file system adapter', async () => {
+      const fileSystem = new MemoryFileSystem({ '/routes/users/[id].ts': { get: (c: any) => c.text(c.routeParams.id) } });
+      const memoryRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false });
+      await memoryRouter.initialize();
+      const source = await memoryRouter.writeStaticRoutes('/build/routes.generated.ts');
+
+      expect(await fileSystem.readFile('/build/routes.generated.ts')).toBe(source);
+      expect(source).toContain(`import * as route0 from "../routes/users/[id]";`);
+      expect(fs.existsSync('/build/routes.generated.ts')).toBe(false);
+    });
+  });
+
+  describe('Static Routes', () => {
+    it('should generate a static route module and serve it without scanning', async () => {
+      const outputPath = path.join(__dirname, 'temp-static', 'routes.generated.ts');
+      fs.mkdirSync(path.join(tempDir, 'users'), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, 'users', '[id:int].ts'),
+        `export async function get(c: any) { return c.json({ id: c.routeParams.id }); }`
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'users', 'me.get.ts'),
+        `export default async function (c: any) { return c.json({ me: true }); }`
+      );
+
+      try {
+        await router.initialize();
+        const source = await router.writeStaticRoutes(outputPath, { importSource: '../../types' });
+
+        expect(source).toContain(`import * as route0 from "../temp-routes/users/[id:int]";`);
+        expect(source).toContain(`import * as route1 from "../temp-routes/users/me.get";`);
+
+        const { staticRoutes } = await import(outputPath);
+        const staticRouter = Router.fromStaticRoutes(staticRoutes, { enableLogging: false });
+        const result = await staticRouter.initialize();
+        const app = staticRouter.getApp();
+
+        expect(result.success).toBe(true);
+        expect(await (await app.request('/users/7')).json()).toEqual({ id: 7 });
+        expect(await (await app.request('/users/me')).json()).toEqual({ me: true });
+        expect(staticRouter.getRoutes().map(route => [route.path, route.filePath])).toEqual([
+          ['/users/me', '../temp-routes/users/me.get.ts'],
+          ['/users/[id:int]', '../temp-routes/users/[id:int].ts']
+        ]);
+      } finally {
+        fs.rmSync(path.dirname(outputPath), { recursive: true, force: true });
+      }
+    });
+
+    it('should register a hand-written table without a routes directory', async () => {
+      const staticRouter = Router.fromStaticRoutes([
+        {
+          route: {
+            pattern: '/health',
+            path: '/health',
+            type: 'simple',
+            params: {},
+            parameters: [],
+            filePath: './routes/health.ts',
+            method: 'GET'
+          },
+          module: { get: (c: any) => c.json({ ok: true }) }
+        }
+      ]);
+      await staticRouter.initialize();
+
+      expect(await (await staticRouter.getApp().request('/health')).json()).toEqual({ ok: true });
+    });
+
+    it('should import ES module route files with the extension they are emitted with', () => {
+      const routeInfos = ['/routes/a.ts', '/routes/b.mts', '/routes/c.mjs', '/routes/d.jsx'].map(filePath => ({
+        pattern: '/',
+        path: '/',
+        type: 'simple',
+        params: {},
+        parameters: [],
+        filePath,
+        method: 'GET'
+      } as RouteInfo));
+      const source = generateStaticRoutesModule('/build/routes.generated.ts', routeInfos);
+
+      expect(source).toContain(`import * as route0 from "../routes/a";`);
+      expect(source).toContain(`import * as route1 from "../routes/b.mjs";`);
+      expect(source).toContain(`import * as route2 from "../routes/c.mjs";`);
+      expect(source).toContain(`import * as route3 from "../routes/d";`);
+    });
+
+    it('should serve static tables from an entry point without Node.js modules', async () => {
+      const { builtinModules } = await import('module');
+      // Módulos externos que importa un archivo, siguiendo sus imports relativos
+      const collectImports = (filePath: string, visited = new Set<string>()): string[] => {
+        const resolved = [filePath, `${filePath}.ts`, path.join(filePath, 'index.ts')]
+          .find(candidate => fs.existsSync(candidate) && fs.statSync(candidate).isFile())!;
+        if (visited.has(resolved)) {
+          return [];
+        }
+        visited.add(resolved);
+        // Sin comentarios, para no contar los imports de los ejemplos de la documentación
+        const source = fs.readFileSync(resolved, 'utf8').replace(/\/\*[\s\S]*?\*\/|\/\/.*$/gm, '');
+        const specifiers = [...source.matchAll(/(?:from|import|require\()\s*['"]([^'"]+)['"]/g)].map(match => match[1]);
+        return specifiers.flatMap(specifier => specifier.startsWith('.')
+          ? collectImports(path.resolve(path.dirname(resolved), specifier), visited)
+          : [specifier]);
+      };
+      const isNodeModule = (specifier: string) => specifier.startsWith('node:') || builtinModules.includes(specifier);
+
+      const staticImports = collectImports(path.join(__dirname, '../src/static.ts'));
+      expect(staticImports).toEqual(expect.arrayContaining(['hono', 'path-to-regexp']));
+      expect(staticImports.filter(isNodeModule)).toEqual([]);
+      expect(collectImports(path.join(__dirname, '../src/router.ts')).filter(isNodeModule)).toContain('fs');
+
+      const staticRouter = StaticRouter.fromStaticRoutes([
+        {
+          route: {
+            pattern: '/users/[id:int]',
+            path: '/users/[id:int]',
+            type: 'singleParam',
+            params: {},
+            parameters: ['id'],
+            filePath: './routes/users/[id:int].ts',
+            method: 'GET'
+          },
+          module: { get: (c: any) => c.json({ id: c.routeParams.id }) }
+        }
+      ], { enableLogging: false });
+      expect((await staticRouter.initialize()).success).toBe(true);
+      expect(await (await staticRouter.getApp().request('/users/7')).json()).toEqual({ id: 7 });
+    });
+
+    it('should point the package entry points at the files the build emits', async () => {
+      const ts = await import('typescript');
+      const rootDir = path.join(__dirname, '..');
+      const packageJson = JSON.parse(fs.readFileSync(path.join(rootDir, 'package.json'), 'utf8'));
+      const tsconfig = ts.getParsedCommandLineOfConfigFile(path.join(rootDir, 'tsconfig.json'), {}, {
+        ...ts.sys,
+        onUnRecoverableConfigFileDiagnostic: diagnostic => { throw new Error(String(diagnostic.messageText)); }
+      })!;
+      // Archivos que tsc emite para un archivo fuente, relativos a la raíz del paquete
+      const emitted = (sourceFile: string) => ts.getOutputFileNames(tsconfig, path.join(rootDir, sourceFile), false)
+        .map(outputFile => `./${path.relative(rootDir, outputFile).split(path.sep).join('/')}`);
+
+      expect(emitted('src/index.ts')).toEqual(expect.arrayContaining(Object.values(packageJson.exports['.'])));
+      expect(emitted('src/index.ts')).toEqual(expect.arrayContaining([`./${packageJson.main}`, `./${packageJson.types}`]));
+      expect(emitted('src/static.ts')).toEqual(expect.arrayContaining(Object.values(packageJson.exports['./static'])));
+    });
+  });
+
+  describe('File System Adapter', () => {
+    it('should build a router from an in-memory file system', async () => {
+      const fileSystem = new MemoryFileSystem({
+        '/app/routes/index.ts': { get: (c: any) => c.json({ home: true }) },
+        '/app/routes/users/[id:int].ts': { get: (c: any) => c.json({ id: c.routeParams.id }) },
+        '/app/routes/users/me.post.ts': { default: (c: any) => c.json({ created: true }, 201) },
+        '/app/routes/_helpers/format.ts': { format: () => '' },
+        '/app/routes/drafts/wip.ts': { get: (c: any) => c.json({}) },
+        '/app/routes/.routeignore': 'drafts/'
+      });
+
+      const memoryRouter = new Router({ routesDirectory: '/app/routes', fileSystem, enableLogging: false });
+      const result = await memoryRouter.initialize();
+      const app = memoryRouter.getApp();
+
+      expect(result.success).toBe(true);
+      expect(memoryRouter.getRoutes().map(route => route.path).sort())
+        .toEqual(['/', '/users/[id:int]', '/users/me']);
+      expect(await (await app.request('/')).json()).toEqual({ home: true });
+      expect(await (await app.request('/users/12')).json()).toEqual({ id: 12 });
+      expect((await app.request('/users/me', { method: 'POST' })).status).toBe(201);
+    });
+
+    it('should validate the routes directory through the file system', () => {
+      expect(() => new Router({ routesDirectory: '/missing', fileSystem: new MemoryFileSystem() }))
+        .toThrow('Routes directory does not exist: /missing');
+    });
+  });
+
+  describe('Route File Extensions', () => {
+    it('should serve .tsx and .cjs route files', async () => {
+      fs.mkdirSync(path.join(tempDir, 'pages'), { recursive: true });
+      fs.writeFileSync(
+        path.join(tempDir, 'pages', '[name].tsx'),
+        `const Page = ({ name }: { name: string }) => <h1>Hello {name}</h1>;
+export async function get(c: any) { return c.html(<Page name={c.routeParams.name} />); }`
+      );
+      fs.writeFileSync(
+        path.join(tempDir, 'legacy.cjs'),
+        `module.exports = { get: (c) => c.json({ legacy: true }) };`
+      );
+      fs.writeFileSync(path.join(tempDir, 'legacy.test.cjs'), 'module.exports = {};');
+
+      await router.initialize();
+      const app = router.getApp();
+
+      expect(router.getRoutes().map(route => route.path).sort()).toEqual(['/legacy', '/pages/[name]']);
+      expect(await (await app.request('/pages/ana')).text()).toBe('<h1>Hello ana</h1>');
+      expect(await (await app.request('/legacy')).json()).toEqual({ legacy: true });
+    });
+
+    it('should only scan the configured extensions', async () => {
+      const fileSystem = new MemoryFileSystem({
+        '/routes/a.mts': { get: () => new Response('a') },
+        '/routes/b.jsx': { get: () => new Response('b') },
+        '/routes/c.ts': { get: () => new Response('c') }
+      });
+
+      const extensionsRouter = new Router({
+        routesDirectory: '/routes',
+        fileSystem,
+        extensions: ['.mts', '.jsx'],
+        enableLogging: false
+      });
+      await extensionsRouter.initialize();
+
+      expect(extensionsRouter.getRoutes().map(route => route.path).sort()).toEqual(['/a', '/b']);
+    });
+  });
+
+  describe('Trailing Slash', () => {
+    const createTrailingSlashApp = async (trailingSlash?: TrailingSlashPolicy, app?: Hono) => {
+      const params = (c: any) => c.json(c.routeParams);
+      const fileSystem = new MemoryFileSystem({
+        '/routes/index.ts': { get: params },
+        '/routes/users.ts': { get: params },
+        '/routes/users/[id:int].ts': { get: params },
+        '/routes/files/[...path].ts': { get: params },
+        '/routes/docs/[[...slug]].ts': { get: params }
+      });
+      const config = { routesDirectory: '/routes', fileSystem, trailingSlash, enableLogging: false };
+      if (app) {
+        await setupRoutes(app, config);
+        return app;
+      }
+      const slashRouter = new Router(config);
+      await slashRouter.initialize();
+      return slashRouter.getApp();
+    };
+
+    const cases = [
+      { path: '/users', params: {} },
+      { path: '/users/42', params: { id: 42 } },
+      { path: '/files/a/b.txt', params: { path: ['a', 'b.txt'] } },
+      { path: '/docs', params: { slug: [] } },
+      { path: '/docs/guide/intro', params: { slug: ['guide', 'intro'] } }
+    ];
+
+    it.each(cases)('should only match $path without trailing slash in strict mode', async ({ path: routePath, params }) => {
+      const app = await createTrailingSlashApp();
+
+      expect(await (await app.request(routePath)).json()).toEqual(params);
+      expect((await app.request(`${routePath}/`)).status).toBe(404);
+    });
+
+    it.each(cases)('should match $path with and without trailing slash in ignore mode', async ({ path: routePath, params }) => {
+      const app = await createTrailingSlashApp('ignore');
+
+      expect(await (await app.request(routePath)).json()).toEqual(params);
+      expect(await (await app.request(`${routePath}/`)).json()).toEqual(params);
+    });
+
+    it.each(cases)('should redirect $path/ to remove the trailing slash', async ({ path: routePath, params }) => {
+      const app = await createTrailingSlashApp('redirect-remove');
+      const response = await app.request(`${routePath}/?page=2`);
+
+      expect(response.status).toBe(308);
+      expect(response.headers.get('Location')).toBe(`${routePath}?page=2`);
+      expect(await (await app.request(routePath)).json()).toEqual(params);
+    });
+
+    it.each(cases)('should redirect $path to add the trailing slash', async ({ path: routePath, params }) => {
+      const app = await createTrailingSlashApp('redirect-add');
+      const response = await app.request(`${routePath}?page=2`);
+
+      expect(response.status).toBe(308);
+      expect(response.headers.get('Location')).toBe(`${routePath}/?page=2`);
+      expect(await (await app.request(`${routePath}/`)).json()).toEqual(params);
+    });
+
+    it('should not redirect to another host when the path starts with //', async () => {
+      const fileSystem = new MemoryFileSystem({ '/routes/[...path].ts': { get: (c: any) => c.json(c.routeParams) } });
+      const createApp = async (trailingSlash: TrailingSlashPolicy) => {
+        const slashRouter = new Router({ routesDirectory: '/routes', fileSystem, trailingSlash, enableLogging: false });
+        await slashRouter.initialize();
+        return slashRouter.getApp();
+      };
+
+      const removed = await (await createApp('redirect-remove')).request('http://localhost//evil.com/');
+      expect(removed.status).toBe(308);
+      expect(removed.headers.get('Location')).toBe('/evil.com');
+
+      const added = await (await createApp('redirect-add')).request('http://localhost//evil.com');
+      expect(added.status).toBe(308);
+      expect(added.headers.get('Location')).toBe('/evil.com/');
+    });
+
+    it('should not redirect the root path or unmatched paths', async () => {
+      const addApp = await createTrailingSlashApp('redirect-add');
+      const removeApp = await createTrailingSlashApp('redirect-remove');
+
+      expect((await addApp.request('/')).status).toBe(200);
+      expect((await addApp.request('/users/abc')).status).toBe(404);
+      expect((await removeApp.request('/')).status).toBe(200);
+      expect((await removeApp.request('/missing/')).status).toBe(404);
+    });
+
+    it('should apply the trailing slash policy when mounted with setupRoutes', async () => {
+      const ignoreApp = await createTrailingSlashApp('ignore', new Hono());
+      expect(await (await ignoreApp.request('/users/42/')).json()).toEqual({ id: 42 });
+      expect(await (await ignoreApp.request('/docs/guide/')).json()).toEqual({ slug: ['guide'] });
+
+      const removeApp = await createTrailingSlashApp('redirect-remove', new Hono());
+      const removed = await removeApp.request('/users/42/?page=2');
+      expect(removed.status).toBe(308);
+      expect(removed.headers.get('Location')).toBe('/users/42?page=2');
+
+      const addApp = await createTrailingSlashApp('redirect-add', new Hono());
+      expect((await addApp.request('/users/42')).headers.get('Location')).toBe('/users/42/');
+      expect(await (await addApp.request('/users/42/')).json()).toEqual({ id: 42 });
+
+      // En modo estricto, las rutas propias de la aplicación con barra final siguen respondiendo
+      const parentApp = new Hono();
+      const strictApp = await createTrailingSlashApp(undefined, parentApp);
+      parentApp.get('/users/', c => c.text('parent'));
+      expect(await (await strictApp.request('/users')).json()).toEqual({});
+      expect(await (await strictApp.request('/users/')).text()).toBe('parent');
+      expect((await strictApp.request('/users/42/')).status).toBe(404);
+    });
+  });
+
+  describe('URL Normalization', () => {
+    const createNormalizationApp = async (config: Partial<RouterConfig> = {}) => {
+      const fileSystem = new MemoryFileSystem({
+        '/routes/api/users/index.ts': { get: (c: any) => c.json({ list: true }) },
+        '/routes/api/users/me.ts': { get: (c: any) => c.json({ me: true }) },
+        '/routes/api/users/[name].ts': { get: (c: any) => c.json(c.routeParams) },
+        '/routes/api/files/[...path].ts': { get: (c: any) => c.json(c.routeParams) }
+      });
+      const normalizationRouter = new Router({ routesDirectory: '/routes', fileSystem, enableLogging: false, ...config });
+      await normalizationRouter.initialize();
+      return normalizationRouter.getApp();
+    };
+
+    it('should match the raw path by default', async () => {
+      const app = await createNormalizationApp();
+
+      expect((await app.request('/api//users')).status).toBe(404);
+      expect((await app.request('/API/users')).status).toBe(404);
+      expect(await (await app.request('/api/users/Ana')).json()).toEqual({ name: 'Ana' });
+    });
+
+    it('should answer malformed percent-encoding with a 400', async () => {
+      const app = await createNormalizationApp();
+      const response = await app.request('/api/users/%E0%A4%A');
+
+      expect(response.status).toBe(400);
+      expect(await response.json()).toEqual(expect.objectContaining({
+        error: 'Bad Request',
+        statusCode: 400,
+        path: '/api/users/%E0%A4%A'
+      }));
+    });
+
+    it('should collapse duplicate slashes and resolve dot segments', async () => {
+      const app = await createNormalizationApp({ normalize: true });
+
+      expect(await (await app.request('/api//users')).json()).toEqual({ list: true });
+      expect(await (await app.request('//api/users///Ana')).json()).toEqual({ name: 'Ana' });
+      expect(await (await app.request('/api/files/a//b')).json()).toEqual({ path: ['a', 'b'] });
+      expect(normalizeUrlPath('/api//users/%2e%2e/x')).toBe('/api/x');
+      expect(normalizeUrlPath('/api/users/./me/..')).toBe('/api/users/');
+      expect(normalizeUrlPath('/../../x')).toBe('/x');
+      expect(normalizeUrlPath('/api//users/../x', { slashes: false })).toBe('/api//x');
+    });
+
+    it('should match static segments ignoring case when caseSensitive is false', async () => {
+      const app = await createNormalizationApp({ caseSensitive: false });
+
+      expect(await (await app.request('/API/Users')).json()).toEqual({ list: true });
+      expect(await (await app.request('/api/USERS/ME')).json()).toEqual({ me: true });
+      expect(await (await app.request('/Api/Users/AnaMaria')).json()).toEqual({ name: 'AnaMaria' });
+      expect(await (await app.request('/API/FILES/Docs/Readme.MD')).json()).toEqual({ path: ['Docs', 'Readme.MD'] });
+    });
+
+    it('should include routes added after initialization when ignoring case', async () => {
+      const fileSystem = new MemoryFileSystem({ '/routes/index.ts': { get: (c: any) => c.text('home') } });
+      const caseRouter = new Router({ routesDirectory: '/routes', fileSystem, caseSensitive: false, enableLogging: false });
+      await caseRouter.initialize();
+      const app = caseRouter.getApp();
+
+      caseRouter.addRoute('/health', { get: (c: any) => c.text('ok') });
+      caseRouter.addRoute('/items/[id]', { get: (c: any) => c.text(c.routeParams.id) });
+
+      expect(await (await app.request('/HEALTH')).text()).toBe('ok');
+      expect(await (await app.request('/Items/AbC')).text()).toBe('AbC');
+      expect((await app.request('/INDEX')).status).toBe(404);
+    });
+
+    it('should redirect to the canonical URL keeping the query string', async () => {
+      const app = await createNormalizationApp({ caseSensitive: false, normalize: { redirect: true } });
+      const response = await app.request('/API//Users/./Ana?tab=posts');
+
+      expect(response.status).toBe(308);
+      expect(response.headers.get('Location')).toBe('/api/users/Ana?tab=posts');
+      expect(await (await app.request('/api/users/Ana')).json()).toEqual({ name: 'Ana' });
+    });
+
+    it('should canonicalize URLs when mounted with setupRoutes', async () => {
+      const app = new Hono();
+      app.get('/health', c => c.text('ok'));
+      const fileSystem = new MemoryFileSystem({
+        '/routes/api/users/index.ts': { get: (c: any) => c.json({ list: true }) },
+        '/routes/api/users/[name].ts': { get: (c: any) => c.json(c.routeParams) }
+      });
+      await setupRoutes(app, { routesDirectory: '/routes', fileSystem, caseSensitive: false, normalize: true, enableLogging: false });
+
+      expect(await (await app.request('/API/USERS')).json()).toEqual({ list: true });
+      expect(await (await app.request('//api//users')).json()).toEqual({ list: true });
+      expect(await (await app.request('/Api/Users/./AnaMaria')).json()).toEqual({ name: 'AnaMaria' });
+      expect(await (await app.request('/health')).text()).toBe('ok');
+      expect((await app.request('/missing')).status).toBe(404);
+    });
   });
 
   describe('Statistics', () => {
@@ -135,6 +1487,7 @@ export async function get(c: Context) {
           simple: 0,
           singleParam: 0,
           variableSegments: 0,
+          optionalVariableSegments: 0,
           nested: 0
         });
     });
@@ -171,6 +1524,38 @@ export async function get(c: Context) { return c.json({}); }`
       // Limpiar
       fs.rmSync(statsTestDir, { recursive: true, force: true });
     });
+
+    it('should report a timing breakdown of initialization', async () => {
+      fs.mkdirSync(path.join(tempDir, 'users'), { recursive: true });
+      for (const name of ['a', 'b', 'c', 'd']) {
+        fs.writeFileSync(path.join(tempDir, 'users', `${name}.ts`), 'export function get() {}');
+      }
+
+      const timedRouter = new Router({ ...testConfig, concurrency: 2 });
+      await timedRouter.initialize();
+      const { timings, processingTime } = timedRouter.getStats();
+
+      expect(Object.keys(timings)).toEqual(['scan', 'import', 'register']);
+      expect(timings.scan + timings.import + timings.register).toBeLessThanOrEqual(processingTime);
+      expect(timedRouter.getRoutes().map(route => route.path))
+        .toEqual(['/users/a', '/users/b', '/users/c', '/users/d']);
+    });
+  });
+
+  describe('Concurrency Limit', () => {
+    it('should release the slot of a task that throws synchronously', async () => {
+      const run = createConcurrencyLimit(1);
+      const failing = () => { throw new Error('sync failure'); };
+
+      await expect(run(failing as () => Promise<string>)).rejects.toThrow('sync failure');
+      await expect(run(async () => 'next')).resolves.toBe('next');
+    });
+
+    it('should fall back to the default limit when the limit is not a number', async () => {
+      const run = createConcurrencyLimit(NaN);
+
+      await expect(Promise.all([1, 2, 3].map(value => run(async () => value)))).resolves.toEqual([1, 2, 3]);
+    });
   });
 
   describe('Error Handling', () => {
@@ -254,6 +1639,138 @@ describe('RouteScanner', () => {
       expect(paramRoute).toBeDefined();
       expect(segmentsRoute).toBeDefined();
     });
+
+    it('should skip private files and folders', async () => {
+      fs.mkdirSync(path.join(tempDir, '_helpers'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'users.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, '_types.ts'), 'export type User = {};');
+      fs.writeFileSync(path.join(tempDir, '_helpers', 'format.ts'), 'export const format = () => {};');
+
+      const result = await scanner.scanRoutes();
+      expect(result.map((r: any) => r.relativePath)).toEqual(['users.ts']);
+    });
+
+    it('should only accept files matching routeFilePattern', async () => {
+      fs.mkdirSync(path.join(tempDir, 'users'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'users.route.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'users', '[id].route.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'users', 'fixtures.ts'), 'export const users = [];');
+
+      const patternScanner = new RouteScanner({
+        baseDir: tempDir,
+        extensions: ['.ts', '.js'],
+        ignore: [],
+        routeFilePattern: '*.route.ts'
+      });
+      const files = await patternScanner.scanRoutes();
+      const routes = await Promise.all(files.map(file => patternScanner.fileToRouteInfo(file)));
+
+      expect(routes.map(route => route.path).sort()).toEqual(['/users', '/users/[id]']);
+    });
+    it('should match ignore patterns with glob semantics', () => {
+      expect(scanner.matchesPattern('users/a.test.ts', '*.test.ts')).toBe(true);
+      expect(scanner.matchesPattern('footest.ts', '*.test.ts')).toBe(false);
+      expect(scanner.matchesPattern('usersXts', 'users.ts')).toBe(false);
+      expect(scanner.matchesPattern('admin/users/[id].ts', 'admin/**')).toBe(true);
+      expect(scanner.matchesPattern('api/admin/users.ts', 'admin/**')).toBe(false);
+      expect(scanner.matchesPattern('api/v2/legacy/old.ts', '**/legacy/*.ts')).toBe(true);
+      expect(scanner.matchesPattern('v1.ts', 'v?.ts')).toBe(true);
+      expect(scanner.matchesPattern('v10.ts', 'v?.ts')).toBe(false);
+      expect(scanner.matchesPattern('v3.ts', 'v[12].ts')).toBe(false);
+      expect(scanner.matchesPattern('v3.ts', 'v[!12].ts')).toBe(true);
+      expect(scanner.matchesPattern('users/[id].ts', 'users/\\[id\\].ts')).toBe(true);
+      expect(scanner.matchesPattern('fixtures/users.ts', 'fixtures/')).toBe(true);
+    });
+
+    it('should apply excludePatterns and .routeignore with negation', async () => {
+      fs.mkdirSync(path.join(tempDir, 'admin'), { recursive: true });
+      fs.writeFileSync(path.join(tempDir, 'users.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'admin', 'users.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'admin', 'health.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, 'draft.ts'), 'export function get() {}');
+      fs.writeFileSync(path.join(tempDir, '.routeignore'), '# drafts\ndraft.ts\n!admin/health.ts\n');
+
+      const ignoreScanner = new RouteScanner({
+        baseDir: tempDir,
+        extensions: ['.ts', '.js'],
+        ignore: ['admin/**']
+      });
+      const files = await ignoreScanner.scanRoutes();
+
+      expect(files.map(file => file.relativePath).sort()).toEqual(['admin/health.ts', 'users.ts']);
+    });
+
+    it('should follow symlinks only when enabled and stop at cycles', async () => {
+      const sharedDir = path.join(__dirname, 'temp-shared-routes');
+      fs.mkdirSync(sharedDir, { recursive: true });
+      fs.writeFileSync(path.join(sharedDir, 'health.ts'), 'export function get() {}');
+      fs.symlinkSync(sharedDir, path.join(tempDir, 'shared'), 'dir');
+      fs.symlinkSync(tempDir, path.join(sharedDir, 'loop'), 'dir');
+
+      try {
+        const defaultFiles = await scanner.scanRoutes();
+        expect(defaultFiles).toHaveLength(0);
+
+        const symlinkScanner = new RouteScanner({
+          baseDir: tempDir,
+          extensions: ['.ts', '.js'],
+          ignore: [],
+          followSymlinks: true
+        });
+        const files = await symlinkScanner.scanRoutes();
+
+        expect(files.map(file => file.relativePath)).toEqual(['shared/health.ts']);
+        expect(files[0].filePath).toBe(path.join(tempDir, 'shared', 'health.ts'));
+        expect(files[0].realPath).toBe(fs.realpathSync(path.join(sharedDir, 'health.ts')));
+      } finally {
+        fs.rmSync(sharedDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should return scanned files in a deterministic order', async () => {
+      for (const dir of ['b', 'a/z', 'a/y']) {
+        fs.mkdirSync(path.join(tempDir, dir), { recursive: true });
+      }
+      for (const file of ['b/index.ts', 'a/z/c.ts', 'a/y/d.ts', 'a/e.ts', 'f.ts']) {
+        fs.writeFileSync(path.join(tempDir, file), 'export function get() {}');
+      }
+
+      const concurrentScanner = new RouteScanner({
+        baseDir: tempDir,
+        extensions: ['.ts', '.js'],
+        ignore: [],
+        concurrency: 2
+      });
+      const files = await concurrentScanner.scanRoutes();
+
+      expect(files.map(file => file.relativePath))
+        .toEqual(['a/e.ts', 'a/y/d.ts', 'a/z/c.ts', 'b/index.ts', 'f.ts']);
+    });
+
+    it('should sort routes by specificity', () => {
+      const paths = [
+        '/docs/[[...slug]]',
+        '/[...rest]',
+        '/users/[id]',
+        '/docs',
+        '/users/[id:int]',
+        '/users/me',
+        '/users/[id]/posts',
+        '/users/post-[slug]'
+      ];
+      const routes = paths.map(routePath => ({ path: routePath } as RouteInfo));
+
+      expect(sortRoutesBySpecificity(routes).map(route => route.path)).toEqual([
+        '/users/me',
+        '/users/post-[slug]',
+        '/users/[id:int]',
+        '/users/[id]/posts',
+        '/users/[id]',
+        '/docs',
+        '/docs/[[...slug]]',
+        '/[...rest]'
+      ]);
+    });
   });
 
 
@@ -263,7 +1780,13 @@ describe('RouteScanner', () => {
     const testCases = [
       { relativePath: 'users.ts', expected: '/users' },
       { relativePath: 'users/[id].ts', expected: '/users/[id]' },
-      { relativePath: 'products/[...segments].ts', expected: '/products/[...segments]' }
+      { relativePath: 'products/[...segments].ts', expected: '/products/[...segments]' },
+      { relativePath: 'api/users/index.ts', expected: '/api/users' },
+      { relativePath: 'index.ts', expected: '/' },
+      { relativePath: '(admin)/api/settings.ts', expected: '/api/settings' },
+      { relativePath: '(public)/index.ts', expected: '/' },
+      { relativePath: 'users/[id].delete.ts', expected: '/users/[id]' },
+      { relativePath: 'users/index.get.ts', expected: '/users' }
     ];
 
     testCases.forEach(({ relativePath, expected }) => {
@@ -278,12 +1801,13 @@ describe('RouteScanner', () => {
       { path: '/users', expected: 'simple' },
       { path: '/users/[id]', expected: 'singleParam' },
       { path: '/users/[id]/posts/[postId]', expected: 'nested' },
-      { path: '/files/[...segments]', expected: 'variableSegments' }
+      { path: '/files/[...segments]', expected: 'variableSegments' },
+      { path: '/docs/[[...slug]]', expected: 'optionalVariableSegments' },
+      { path: '/reports/[[year]]', expected: 'singleParam' }
     ];
 
     testCases.forEach(({ path, expected }) => {
-      // Access private method through reflection for testing
-      const routeType = (scanner as any).determineRouteType(path);
+      const routeType = determineRouteType(path);
       expect(routeType).toBe(expected);
     });
   });
@@ -293,11 +1817,13 @@ describe('RouteScanner', () => {
       { path: '/users', expected: [] },
       { path: '/users/[id]', expected: ['id'] },
       { path: '/users/[id]/posts/[postId]', expected: ['id', 'postId'] },
-      { path: '/files/[...segments]', expected: ['segments'] }
+      { path: '/files/[...segments]', expected: ['segments'] },
+      { path: '/docs/[[...slug]]', expected: ['slug'] },
+      { path: '/reports/[[year]]', expected: ['year'] }
     ];
 
     testCases.forEach(({ path, expected }) => {
-      const params = scanner.getRouteParameters(path);
+      const params = getRouteParameters(path);
       expect(params).toEqual(expected);
     });
   });
@@ -332,6 +1858,47 @@ describe('ParameterExtractor', () => {
       expect(result.segments).toEqual(['electronics', 'phones', 'smartphones']);
     });
 
+    it('should keep a parameter named segments as a single value', () => {
+      expect(extractor.extractParameters('/files/report', '/files/[segments]')).toEqual({ segments: 'report' });
+      expect(extractor.extractParameters('/files/a/b', '/files/[...segments]')).toEqual({ segments: ['a', 'b'] });
+    });
+
+    it('should extract optional variable segments', () => {
+      expect(extractor.extractParameters('/docs/guide/intro', '/docs/[[...slug]]'))
+        .toEqual({ slug: ['guide', 'intro'] });
+      expect(extractor.extractParameters('/docs', '/docs/[[...slug]]'))
+        .toEqual({ slug: [] });
+    });
+
+    it('should leave absent optional parameters undefined', () => {
+      expect(extractor.extractParameters('/reports/2024', '/reports/[[year]]')).toEqual({ year: '2024' });
+      expect(extractor.extractParameters('/reports', '/reports/[[year]]').year).toBeUndefined();
+    });
+
+    it('should convert typed parameters and reject values of another type', () => {
+      expect(extractor.extractParameters('/users/42', '/users/[id:int]')).toEqual({ id: 42 });
+      expect(extractor.matchesPattern('/users/abc', '/users/[id:int]')).toBe(false);
+      expect(extractor.matchesPattern('/posts/hello-world', '/posts/[slug:slug]')).toBe(true);
+      expect(extractor.matchesPattern('/posts/hello_world', '/posts/[slug:slug]')).toBe(false);
+    });
+
+    it('should apply inline regex constraints', () => {
+      expect(extractor.extractParameters('/status/404', '/status/[code(\\d{3})]')).toEqual({ code: '404' });
+      expect(extractor.matchesPattern('/status/40', '/status/[code(\\d{3})]')).toBe(false);
+      expect(extractor.matchesPattern('/es/docs', '/[lang(en|es|fr)]/docs')).toBe(true);
+      expect(extractor.matchesPattern('/de/docs', '/[lang(en|es|fr)]/docs')).toBe(false);
+    });
+
+    it('should extract parameters mixed with static text in a segment', () => {
+      expect(extractor.extractParameters('/blog/post-hello-world', '/blog/post-[slug]'))
+        .toEqual({ slug: 'hello-world' });
+      expect(extractor.extractParameters('/files/report-2024.pdf', '/files/[name].[ext]'))
+        .toEqual({ name: 'report-2024', ext: 'pdf' });
+      expect(extractor.extractParameters('/v1-2', '/v[major:int]-[minor:int]'))
+        .toEqual({ major: 1, minor: 2 });
+      expect(extractor.extractParameters('/items/12abc', '/items/[id]abc')).toEqual({ id: '12' });
+    });
+
     it('should return empty object for no parameters', () => {
       const result = extractor.extractParameters('/users', '/users');
       expect(result).toEqual({});
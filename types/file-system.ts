@@ -0,0 +1,48 @@
+/**
+ * Entrada de un directorio devuelta por RouteFileSystem.readdir
+ */
+export interface RouteFileSystemEntry {
+  /** Nombre del archivo o carpeta */
+  name: string;
+  /** Es una carpeta */
+  isDirectory: boolean;
+  /** Es un archivo */
+  isFile: boolean;
+  /** Es un enlace simbólico (se resuelve con stat si followSymlinks está activo) */
+  isSymbolicLink: boolean;
+}
+
+/**
+ * Información de un archivo o carpeta devuelta por RouteFileSystem.stat
+ */
+export interface RouteFileStats {
+  /** Es una carpeta */
+  isDirectory: boolean;
+  /** Es un archivo */
+  isFile: boolean;
+  /** Fecha de última modificación */
+  mtime: Date;
+  /** Tamaño en bytes */
+  size: number;
+}
+
+/**
+ * Acceso al sistema de archivos que usan el escáner y el router para encontrar
+ * y cargar los archivos de ruta
+ */
+export interface RouteFileSystem {
+  /** Lista las entradas de un directorio */
+  readdir(dirPath: string): Promise<RouteFileSystemEntry[]>;
+  /** Obtiene la información de un archivo o carpeta (siguiendo enlaces simbólicos) */
+  stat(filePath: string): Promise<RouteFileStats>;
+  /** Verifica si un archivo o carpeta existe (síncrono: se usa en el constructor del router) */
+  exists(filePath: string): boolean;
+  /** Importa el módulo de un archivo de ruta */
+  import(filePath: string): Promise<Record<string, any>>;
+  /** Resuelve los enlaces simbólicos de una ruta (por defecto, la ruta se usa tal cual) */
+  realpath?(filePath: string): Promise<string>;
+  /** Lee un archivo de texto, como .routeignore (si no está disponible, no se leen) */
+  readFile?(filePath: string): Promise<string>;
+  /** Escribe un archivo de texto creando sus carpetas, como el manifiesto de rutas */
+  writeFile?(filePath: string, content: string): Promise<void>;
+}
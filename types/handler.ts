@@ -1,10 +1,11 @@
 import { Context, Next } from 'hono';
-import { RouteParams } from './route';
+import { RouteParams, TypedRouteParams } from './route';
+import type { HTTPMethod } from './index';
 
 /**
  * Contexto extendido que incluye parámetros de ruta tipados
  */
-export interface ExtendedContext<T extends RouteParams = RouteParams> extends Context {
+export interface ExtendedContext<T extends TypedRouteParams = RouteParams> extends Context {
   /** Parámetros de ruta tipados */
   routeParams: T;
   /** Información de la ruta actual */
@@ -20,28 +21,50 @@ export interface ExtendedContext<T extends RouteParams = RouteParams> extends Co
 /**
  * Función handler para rutas
  */
-export type RouteHandler<T extends RouteParams = RouteParams> = (
+export type RouteHandler<T extends TypedRouteParams = RouteParams> = (
   c: ExtendedContext<T>,
   next: Next
 ) => Promise<Response> | Response;
 
+/**
+ * Middleware de una ruta: llama a next() para continuar con el siguiente middleware
+ * (y finalmente el handler) o devuelve una respuesta para cortar la cadena
+ */
+export type RouteMiddleware<T extends TypedRouteParams = RouteParams> = (
+  c: ExtendedContext<T>,
+  next: Next
+) => Promise<Response | void> | Response | void;
+
+/**
+ * Middleware que exporta un archivo de ruta (export const middleware): un array se aplica
+ * a todos sus métodos y un objeto solo a los métodos indicados (ej: { post: [...] })
+ */
+export type RouteMiddlewareExport<T extends TypedRouteParams = RouteParams> =
+  | RouteMiddleware<T>[]
+  | { [method: string]: RouteMiddleware<T>[] };
+
 /**
  * Callback para acceder al contexto de Hono
  */
-export type ContextCallback<T extends RouteParams = RouteParams> = (
+export type ContextCallback<T extends TypedRouteParams = RouteParams> = (
   context: ExtendedContext<T>
 ) => Promise<Response> | Response;
 
 /**
  * Configuración del handler exportado por cada archivo de ruta
  */
-export interface HandlerConfig<T extends RouteParams = RouteParams> {
+export interface HandlerConfig<T extends TypedRouteParams = RouteParams> {
   /** Función handler principal */
   handler: RouteHandler<T>;
-  /** Métodos HTTP soportados */
-  methods?: string[];
-  /** Middleware específico para esta ruta */
-  middleware?: RouteHandler<T>[];
+  /** Métodos HTTP soportados (por defecto GET, o el método del sufijo del archivo) */
+  methods?: HTTPMethod[];
+  /** Middleware específico para esta ruta, ejecutado en orden antes del handler */
+  middleware?: RouteMiddleware<T>[];
+  /**
+   * Parámetros que espera el handler, con la sintaxis del nombre de archivo ('id', 'id:int',
+   * '...path'); al registrar la ruta se verifica que coincidan con los del archivo
+   */
+  params?: readonly string[];
   /** Configuración de validación de parámetros */
   validation?: {
     [K in keyof T]?: {
@@ -82,7 +105,37 @@ export type VariableSegmentRouteHandler<K extends string> = RouteHandler<{
 }>;
 
 // Para rutas anidadas con múltiples parámetros
-export type NestedRouteHandler<T extends RouteParams> = RouteHandler<T>;
+export type NestedRouteHandler<T extends TypedRouteParams> = RouteHandler<T>;
+
+/**
+ * Nombre de un parámetro declarado ('id:int' → 'id', '...path' → 'path', 'year?' → 'year')
+ */
+export type DeclaredParamName<D extends string> =
+  D extends `...${infer N}` ? N : D extends `${infer N}:${string}` ? N : D extends `${infer N}?` ? N : D;
+
+/**
+ * Tipo del valor de un parámetro declarado ('...path' → string[], 'id:int' → number, 'id' → string).
+ * Los parámetros opcionales ([[year]]) se declaran con '?' al final ('year?', 'year:int?') y
+ * pueden no tener valor.
+ */
+export type DeclaredParamValue<D extends string> =
+  D extends `...${string}` ? string[] :
+  D extends `${infer P}?` ? DeclaredParamValue<P> | undefined :
+  D extends `${string}:int` ? number : string;
+
+/**
+ * Parámetros tipados a partir de los nombres declarados (ej: ['userId:int', '...path'])
+ */
+export type DeclaredRouteParams<D extends readonly string[]> = {
+  [K in D[number] as DeclaredParamName<K>]: DeclaredParamValue<K>;
+};
+
+/**
+ * Definición de una ruta con defineRoute(): HandlerConfig cuyos parámetros se tipan
+ * a partir de los nombres declarados en params
+ */
+export type RouteDefinitionConfig<D extends readonly string[]> =
+  Omit<HandlerConfig<DeclaredRouteParams<D>>, 'params'> & { params: D };
 
 /**
  * Factory para crear handlers tipados
@@ -104,7 +157,7 @@ export interface HandlerFactory {
   ) => HandlerConfig<{ [P in K]: string[] }>;
   
   /** Crear handler para ruta anidada */
-  nested: <T extends RouteParams>(
+  nested: <T extends TypedRouteParams>(
     handler: NestedRouteHandler<T>
   ) => HandlerConfig<T>;
 }
\ No newline at end of file
@@ -1,25 +1,45 @@
+import type { RouteInfo } from './route';
+
 // Re-export all types from individual modules
 export type {
   RouteType,
   RouteParams,
+  TypedRouteParams,
+  RouteParameter,
   RouteInfo,
   ParamValidation,
   RouteParamConfig,
   RouteProcessResult,
-  RouteScanConfig
+  RouteScanConfig,
+  RouteConflict
 } from './route';
 
 export type {
   ExtendedContext,
   RouteHandler,
+  RouteMiddleware,
+  RouteMiddlewareExport,
   ContextCallback,
   HandlerConfig,
   HandlerResult,
-  HandlerFactory
+  HandlerFactory,
+  DeclaredParamName,
+  DeclaredParamValue,
+  DeclaredRouteParams,
+  RouteDefinitionConfig
 } from './handler';
 
+export type {
+  RouteFileSystem,
+  RouteFileSystemEntry,
+  RouteFileStats
+} from './file-system';
+
 export type {
   RouterConfig,
+  RoutesRoot,
+  TrailingSlashPolicy,
+  UrlNormalizationConfig,
   ErrorHandlingConfig,
   ValidationError,
   RouterInitResult,
@@ -30,7 +50,13 @@ export type {
 } from './router';
 
 // Tipos de utilidad
-export type HTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+export type StandardHTTPMethod = 'GET' | 'POST' | 'PUT' | 'DELETE' | 'PATCH' | 'HEAD' | 'OPTIONS';
+
+/**
+ * Método HTTP de una ruta: uno estándar, 'ALL' (export all, atiende cualquier método sin
+ * handler propio) o un método de extensión configurado en RouterConfig.methods (ej: 'PROPFIND')
+ */
+export type HTTPMethod = StandardHTTPMethod | 'ALL' | (string & {});
 
 export type RoutePattern = string;
 
@@ -59,8 +85,10 @@ export interface DefaultRouterConfig {
  * Metadatos de archivo de ruta
  */
 export interface RouteFileMetadata {
-  /** Ruta completa del archivo */
+  /** Ruta completa del archivo (a través de los enlaces simbólicos recorridos) */
   filePath: string;
+  /** Ruta real del archivo, con los enlaces simbólicos resueltos */
+  realPath: string;
   /** Ruta relativa desde el directorio base */
   relativePath: string;
   /** Nombre del archivo sin extensión */
@@ -71,4 +99,47 @@ export interface RouteFileMetadata {
   lastModified: Date;
   /** Tamaño del archivo en bytes */
   size: number;
+}
+
+/**
+ * Archivo de ruta tal como se guarda en el manifiesto (rutas relativas al manifiesto)
+ */
+export interface RouteManifestEntry {
+  /** Metadatos del archivo; la fecha se guarda en formato ISO */
+  file: Omit<RouteFileMetadata, 'lastModified'> & {
+    lastModified: string;
+    /** Hash SHA-256 del contenido del archivo (se omite si el sistema de archivos no puede leerlo) */
+    hash?: string;
+  };
+  /** Información de la ruta que define el archivo */
+  route: RouteInfo;
+  /** Métodos HTTP que registra el archivo */
+  methods: string[];
+}
+
+/**
+ * Ruta de una tabla estática: su información y el módulo importado estáticamente
+ */
+export interface StaticRouteEntry {
+  /** Información de la ruta (las rutas de archivo son relativas al módulo generado) */
+  route: RouteInfo;
+  /** Módulo del archivo de ruta (import * as module from '...') */
+  module: Record<string, any>;
+}
+
+/**
+ * Tabla de rutas generada con router.writeStaticRoutes(), para entornos sin sistema de archivos
+ */
+export type StaticRouteTable = StaticRouteEntry[];
+
+/**
+ * Manifiesto de rutas generado con router.writeManifest()
+ */
+export interface RouteManifest {
+  /** Versión del formato del manifiesto */
+  version: number;
+  /** Fecha de generación en formato ISO */
+  generatedAt: string;
+  /** Archivos de ruta, en orden de escaneo */
+  entries: RouteManifestEntry[];
 }
\ No newline at end of file
@@ -1,5 +1,7 @@
+import type { RouteFileSystem } from './file-system';
+
 // Tipos de rutas soportadas por el router
-export type RouteType = 'simple' | 'singleParam' | 'variableSegments' | 'nested';
+export type RouteType = 'simple' | 'singleParam' | 'variableSegments' | 'optionalVariableSegments' | 'nested';
 
 /**
  * Parámetros extraídos de una ruta
@@ -8,6 +10,30 @@ export interface RouteParams {
   [key: string]: string | string[];
 }
 
+/**
+ * Parámetros de ruta después de convertir los parámetros tipados (ej: [id:int] → number).
+ * Los parámetros opcionales ([[year]]) sin valor son undefined.
+ */
+export interface TypedRouteParams {
+  [key: string]: string | string[] | number | undefined;
+}
+
+/**
+ * Descripción de un parámetro declarado en el patrón de una ruta
+ */
+export interface RouteParameter {
+  /** Nombre del parámetro */
+  name: string;
+  /** Indica si el parámetro puede omitirse ([[param]] o [[...param]]) */
+  optional: boolean;
+  /** Indica si el parámetro captura varios segmentos ([...param]) */
+  variable: boolean;
+  /** Tipo declarado en el nombre del archivo ([id:int]) */
+  type?: string;
+  /** Expresión regular que debe cumplir el valor ([code(\d{3})]) */
+  constraint?: string;
+}
+
 /**
  * Información de una ruta procesada
  */
@@ -26,6 +52,12 @@ export interface RouteInfo {
   filePath: string;
   /** Método HTTP */
   method: string;
+  /** Método HTTP declarado en el nombre del archivo (ej: profile.get.ts) */
+  fileMethod?: string;
+  /** Grupos de ruta a los que pertenece (carpetas entre paréntesis) */
+  groups?: string[];
+  /** Directorio raíz de rutas del que proviene el archivo */
+  root?: string;
 }
 
 /**
@@ -59,6 +91,20 @@ export interface RouteProcessResult {
   error?: string;
 }
 
+/**
+ * Conflicto entre archivos que resuelven a la misma ruta
+ */
+export interface RouteConflict {
+  /** Tipo de conflicto: misma ruta en varios archivos, o patrones que capturan las mismas URLs */
+  type: 'duplicate' | 'ambiguous';
+  /** Ruta de API en conflicto */
+  path: string;
+  /** Archivos que definen la ruta */
+  filePaths: string[];
+  /** Mensaje descriptivo del conflicto */
+  message: string;
+}
+
 /**
  * Configuración de ruta para el escáner
  */
@@ -69,6 +115,20 @@ export interface RouteScanConfig {
   extensions: string[];
   /** Patrones de archivos a ignorar */
   ignore: string[];
+  /** Nombre (sin extensión) de los archivos que representan su directorio (por defecto 'index') */
+  indexFileName?: string;
+  /** Patrón que deben cumplir los archivos de ruta (ej: '*.route.ts'); el resto se ignora */
+  routeFilePattern?: string;
+  /** Prefijo de URL bajo el que se montan las rutas del directorio (ej: /billing) */
+  prefix?: string;
+  /** Seguir enlaces simbólicos a archivos y carpetas (por defecto false) */
+  followSymlinks?: boolean;
+  /** Máximo de operaciones de sistema de archivos simultáneas */
+  concurrency?: number;
+  /** Sistema de archivos a usar (por defecto, el de Node.js) */
+  fileSystem?: RouteFileSystem;
+  /** Métodos de extensión aceptados como sufijo del archivo además de los estándar (ej: ['PROPFIND']) */
+  methods?: string[];
   /** Configuración de validación de parámetros */
   paramValidation?: RouteParamConfig;
 }
\ No newline at end of file
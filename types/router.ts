@@ -1,15 +1,48 @@
 import { Hono } from 'hono';
-import { RouteInfo } from './route';
+import { RouteInfo, RouteType, RouteParameter, RouteConflict } from './route';
 import { HandlerConfig } from './handler';
+import type { StaticRouteTable } from './index';
+import type { RouteFileSystem } from './file-system';
 
 /**
  * Configuración principal del router
  */
 export interface RouterConfig {
-  /** Directorio base donde se encuentran las rutas */
-  routesDirectory: string;
+  /** Directorio base donde se encuentran las rutas, o varios directorios con su prefijo */
+  routesDirectory: string | RoutesRoot[];
   /** Patrones de exclusión para archivos */
   excludePatterns?: string[];
+  /** Extensiones de los archivos de ruta (por defecto .ts, .tsx, .mts, .js, .jsx, .mjs y .cjs) */
+  extensions?: string[];
+  /** Métodos HTTP de extensión que pueden exportar las rutas, además de los estándar (ej: ['PROPFIND', 'QUERY']) */
+  methods?: string[];
+  /** Nombre (sin extensión) de los archivos que representan su directorio (por defecto 'index') */
+  indexFileName?: string;
+  /** Patrón que deben cumplir los archivos de ruta (ej: '*.route.ts'); el resto se ignora */
+  routeFilePattern?: string;
+  /** Seguir enlaces simbólicos al escanear (los ciclos se detectan por ruta real) */
+  followSymlinks?: boolean;
+  /** Máximo de operaciones simultáneas al escanear directorios e importar handlers (por defecto 16) */
+  concurrency?: number;
+  /** Manifiesto de rutas (generado con writeManifest) a cargar en lugar de escanear */
+  manifest?: string;
+  /** Verificar que el manifiesto esté al día comparando fechas de modificación o hashes, y que no falten archivos nuevos */
+  manifestCheck?: 'mtime' | 'hash';
+  /** Tabla de rutas estática (ver StaticRouter.fromStaticRoutes); evita escanear e importar archivos */
+  staticRoutes?: StaticRouteTable;
+  /** Sistema de archivos para escanear e importar rutas (por defecto, el de Node.js) */
+  fileSystem?: RouteFileSystem;
+  /** Fallar la inicialización si hay rutas ambiguas (ej: [id].ts junto a [userId].ts) */
+  strictConflicts?: boolean;
+  /**
+   * Política de barra final: 'strict' solo acepta la URL sin barra (por defecto), 'ignore' acepta
+   * ambas, y 'redirect-add' / 'redirect-remove' redirigen con 308 a la URL con o sin barra
+   */
+  trailingSlash?: TrailingSlashPolicy;
+  /** Distinguir mayúsculas y minúsculas en los segmentos estáticos de la URL (por defecto true) */
+  caseSensitive?: boolean;
+  /** Normalizar la URL antes de buscar la ruta (true equivale a { slashes: true, dotSegments: true }) */
+  normalize?: boolean | UrlNormalizationConfig;
   /** Prefijo base para todas las rutas */
   basePrefix?: string;
   /** Habilitar logging de rutas registradas */
@@ -24,6 +57,33 @@ export interface RouterConfig {
   globalMiddleware?: any[];
 }
 
+/**
+ * Política para URLs con barra final (ej: /api/users/)
+ */
+export type TrailingSlashPolicy = 'strict' | 'ignore' | 'redirect-add' | 'redirect-remove';
+
+/**
+ * Opciones de normalización de la URL antes de buscar la ruta
+ */
+export interface UrlNormalizationConfig {
+  /** Unir barras duplicadas (ej: /api//users → /api/users) (por defecto true) */
+  slashes?: boolean;
+  /** Resolver los segmentos . y .., también codificados como %2e (por defecto true) */
+  dotSegments?: boolean;
+  /** Redirigir con 308 a la URL canónica (también por mayúsculas) en lugar de atenderla (por defecto false) */
+  redirect?: boolean;
+}
+
+/**
+ * Directorio raíz de rutas montado bajo un prefijo (ej: { dir: 'packages/billing/routes', prefix: '/billing' })
+ */
+export interface RoutesRoot {
+  /** Directorio que contiene los archivos de ruta */
+  dir: string;
+  /** Prefijo de URL para las rutas del directorio */
+  prefix?: string;
+}
+
 /**
  * Configuración de manejo de errores
  */
@@ -68,6 +128,8 @@ export interface RouterInitResult {
   routes?: RouteInfo[];
   /** Número de rutas registradas */
   routesRegistered?: number;
+  /** Conflictos detectados entre rutas (duplicadas o ambiguas) */
+  conflicts?: RouteConflict[];
   /** Error durante la inicialización */
   error?: string;
   /** Estadísticas de rutas procesadas */
@@ -87,12 +149,22 @@ export interface RouterStats {
     simple: number;
     singleParam: number;
     variableSegments: number;
+    optionalVariableSegments: number;
     nested: number;
   };
-  /** Rutas por método HTTP */
+  /** Rutas por método HTTP (incluye 'ALL' y los métodos de extensión) */
   routesByMethod: { [method: string]: number };
   /** Tiempo de procesamiento en ms */
   processingTime: number;
+  /** Desglose del tiempo de inicialización en ms */
+  timings: {
+    /** Escaneo de directorios y conversión a rutas */
+    scan: number;
+    /** Importación de los módulos de handler */
+    import: number;
+    /** Registro de las rutas en Hono */
+    register: number;
+  };
   /** Última vez que se escanearon las rutas */
   lastScanTime: Date | null;
 }
@@ -106,11 +178,19 @@ export interface RegisteredRoute {
   /** Ruta del archivo */
   filePath: string;
   /** Tipo de ruta */
-  type: 'simple' | 'singleParam' | 'variableSegments' | 'nested';
+  type: RouteType;
   /** Métodos HTTP soportados */
   methods: string[];
-  /** Parámetros de la ruta */
-  parameters: string[];
+  /** Archivo que define cada método (ej: { GET: '.../profile.get.ts' }) */
+  methodFiles: { [method: string]: string };
+  /** Middleware de cada método en orden de ejecución (nombres de las funciones, ej: { POST: ['requireAuth'] }) */
+  middleware: { [method: string]: string[] };
+  /** Parámetros de la ruta (indicando si son opcionales o variables) */
+  parameters: RouteParameter[];
+  /** Grupos de ruta a los que pertenece (carpetas entre paréntesis) */
+  groups: string[];
+  /** Directorio raíz de rutas del que proviene ('manual' si se agregó con addRoute) */
+  root: string;
 }
 
 /**